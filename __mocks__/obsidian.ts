@@ -0,0 +1,44 @@
+/**
+ * Stands in for the Obsidian API, which only exists inside the app, so that helpers can be imported by tests
+ */
+import type * as Moment from "moment";
+import { createRequire } from "module";
+
+// Loaded as CommonJS, since an ES import of it is not callable outside a bundler
+export const moment: typeof Moment = createRequire(import.meta.url)("moment");
+
+export class Notice {
+	constructor(public message?: string, public duration?: number) {}
+	setMessage(message: string) {
+		this.message = message;
+		return this;
+	}
+	hide() {}
+}
+
+export class Modal {}
+export class ItemView {}
+export class Setting {}
+export class ButtonComponent {}
+export class WorkspaceLeaf {}
+export class TAbstractFile {
+	path = "";
+	name = "";
+}
+export class TFile extends TAbstractFile {
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+	isRoot() {
+		return this.path === "/";
+	}
+}
+
+export const Platform = { isMobile: false, isDesktop: true };
+
+export const setIcon = () => {};
+
+export const requestUrl = () => {
+	throw new Error("No network access in tests");
+};
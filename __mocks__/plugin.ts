@@ -0,0 +1,169 @@
+/**
+ * A plugin with an in-memory vault, for testing helpers without Obsidian or Google Drive
+ */
+import ObsidianGoogleDrive from "main";
+import { Notice, TAbstractFile, TFile, TFolder } from "obsidian";
+import { vi } from "vitest";
+import { isIgnored } from "../helpers/ignore";
+
+export const MTIME = 1000;
+
+const isHidden = (path: string) =>
+	path.split("/").some((name) => name.startsWith("."));
+
+const parentOf = (path: string) => path.split("/").slice(0, -1).join("/");
+
+/**
+ * @param files Contents by path, each file modified at {@link MTIME}. Folders are made for them, and `folders` adds empty ones
+ * @param drive Replaces Google Drive client methods, which otherwise find nothing
+ */
+export const createPlugin = ({
+	files = {},
+	folders = [],
+	settings = {},
+	drive = {},
+}: {
+	files?: Record<string, string>;
+	folders?: string[];
+	settings?: Partial<ObsidianGoogleDrive["settings"]>;
+	drive?: Partial<Record<keyof ObsidianGoogleDrive["drive"], unknown>>;
+}) => {
+	const contents = new Map(
+		Object.entries(files).map(([path, text]) => [
+			path,
+			new TextEncoder().encode(text),
+		])
+	);
+	const folderPaths = new Set(folders);
+	[...contents.keys(), ...folders].forEach((path) => {
+		for (let parent = parentOf(path); parent; parent = parentOf(parent)) {
+			folderPaths.add(parent);
+		}
+	});
+
+	const toFile = (path: string): TAbstractFile => {
+		const file = contents.has(path) ? new TFile() : new TFolder();
+		file.path = path;
+		file.name = path.split("/").pop() || "";
+		if (file instanceof TFile) {
+			file.stat = { ctime: 0, mtime: MTIME, size: read(path).byteLength };
+		}
+		return file;
+	};
+	const read = (path: string) => {
+		const content = contents.get(path);
+		if (!content) throw new Error(`${path} does not exist`);
+		return content;
+	};
+	const readBinary = async (path: string) => read(path).slice().buffer;
+
+	// Like Obsidian, the vault index leaves out hidden files and folders
+	const root = Object.assign(new TFolder(), { path: "/", name: "" });
+	const vault = {
+		configDir: ".obsidian",
+		getName: () => "Vault",
+		getAllLoadedFiles: () => [
+			root,
+			...[...folderPaths, ...contents.keys()]
+				.filter((path) => !isHidden(path))
+				.map(toFile),
+		],
+		getAbstractFileByPath: (path: string) =>
+			!isHidden(path) && (contents.has(path) || folderPaths.has(path))
+				? toFile(path)
+				: null,
+		getFolderByPath: (path: string) =>
+			!isHidden(path) && folderPaths.has(path) ? toFile(path) : null,
+		getFileByPath: (path: string) =>
+			!isHidden(path) && contents.has(path) ? toFile(path) : null,
+		// Obsidian's defaults
+		getConfig: (key: string) =>
+			key === "trashOption" ? "system" : undefined,
+		readBinary: (file: TFile) => readBinary(file.path),
+		adapter: {
+			exists: async (path: string) =>
+				contents.has(path) || folderPaths.has(path),
+			stat: async (path: string) =>
+				contents.has(path)
+					? {
+							type: "file",
+							ctime: 0,
+							mtime: MTIME,
+							size: read(path).byteLength,
+					  }
+					: folderPaths.has(path)
+					? { type: "folder", ctime: 0, mtime: MTIME, size: 0 }
+					: null,
+			read: async (path: string) => new TextDecoder().decode(read(path)),
+			readBinary,
+			writeBinary: async (path: string, data: ArrayBuffer) => {
+				contents.set(path, new Uint8Array(data));
+			},
+			mkdir: async (path: string) => {
+				folderPaths.add(path);
+			},
+			remove: async (path: string) => {
+				contents.delete(path);
+			},
+			trashSystem: async (path: string) => {
+				contents.delete(path);
+				return true;
+			},
+			list: async (folder: string) => ({
+				files: [...contents.keys()].filter(
+					(path) => parentOf(path) === folder
+				),
+				folders: [...folderPaths].filter(
+					(path) => parentOf(path) === folder
+				),
+			}),
+		},
+	};
+
+	const localStorage = new Map<string, unknown>();
+	const t = {
+		app: {
+			vault,
+			loadLocalStorage: (key: string) => localStorage.get(key) ?? null,
+			saveLocalStorage: (key: string, value: unknown) =>
+				localStorage.set(key, value),
+		},
+		settings: {
+			vaultId: "vault",
+			operations: {},
+			renames: {},
+			fileStates: {},
+			driveIdToPath: {},
+			nativeExports: {},
+			nativeFormats: {},
+			lastSyncedAt: 0,
+			changesToken: "",
+			trashDeletions: true,
+			...settings,
+		},
+		manifest: { dir: ".obsidian/plugins/google-drive-sync" },
+		ignoreRules: [],
+		syncing: false,
+		syncErrors: [],
+		accessToken: { token: "token", expiresAt: Infinity },
+		drive: {
+			getRootFolderId: async () => "root",
+			searchFiles: async () => [],
+			searchHiddenFiles: async () => [],
+			searchNativeFiles: async () => [],
+			getChanges: async () => [],
+			getConfigFilesToSync: async () => [],
+			deleteFilesMinimumOperations: async () => {},
+			...drive,
+		},
+		shouldSyncFile(path: string, isFolder?: boolean) {
+			return !isIgnored(t.ignoreRules, path, isFolder);
+		},
+		getDeviceName: () => "Test device",
+		startSync: vi.fn(async () => new Notice("Syncing (0%)", 0)),
+		endSync: vi.fn(async () => {}),
+		saveSettings: vi.fn(async () => {}),
+		refreshSyncStatus: vi.fn(),
+	};
+	return t as unknown as ObsidianGoogleDrive;
+};
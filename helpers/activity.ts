@@ -0,0 +1,288 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, moment, Notice, Setting } from "obsidian";
+import { formatBytes } from "./drive";
+import { describeError } from "./errors";
+
+export type SyncTrigger =
+	| "push"
+	| "pull"
+	| "reset"
+	| "reconcile"
+	| "startup"
+	| "interval"
+	| "idle"
+	| "resume"
+	| "quit";
+
+interface Deletion {
+	path: string;
+	from: "vault" | "drive";
+	/**
+	 * The device that deleted it, where known
+	 */
+	by?: string;
+	/**
+	 * When it was deleted on Google Drive, if that was before this sync
+	 */
+	at?: string;
+}
+
+/**
+ * What a single sync did, kept after it ends
+ */
+export interface SyncActivity {
+	trigger: SyncTrigger;
+	device: string;
+	startedAt: number;
+	duration: number;
+	uploaded: string[];
+	downloaded: string[];
+	deleted: Deletion[];
+	bytesUploaded: number;
+	bytesDownloaded: number;
+	errors: string[];
+	/**
+	 * Why the sync stopped partway through, if it did
+	 */
+	aborted?: string;
+}
+
+const MAX_ENTRIES = 500;
+const MAX_SIZE = 1_000_000;
+const EXPORT_DAYS = 30;
+
+const TRIGGER_NAMES: Record<SyncTrigger, string> = {
+	push: "Push",
+	pull: "Pull",
+	reset: "Reset",
+	reconcile: "Reconcile",
+	startup: "Pull on startup",
+	interval: "Scheduled pull",
+	idle: "Push after editing",
+	resume: "Sync on reopening",
+	quit: "Push on quit",
+};
+
+/**
+ * Kept next to the plugin's settings rather than in them, since settings are synced to every device
+ */
+const getLogPath = (t: ObsidianGoogleDrive) =>
+	`${t.manifest.dir}/activity.json`;
+
+const readLog = async (t: ObsidianGoogleDrive) => {
+	const { adapter } = t.app.vault;
+	const path = getLogPath(t);
+	if (!(await adapter.exists(path))) return [];
+	try {
+		return JSON.parse(await adapter.read(path)) as SyncActivity[];
+	} catch (e) {
+		console.error("[GDriveSync] Could not read the activity log", e);
+		return [];
+	}
+};
+
+export const startActivity = (
+	t: ObsidianGoogleDrive,
+	trigger: SyncTrigger
+) => {
+	t.activity = {
+		trigger,
+		device: t.getDeviceName(),
+		startedAt: Date.now(),
+		duration: 0,
+		uploaded: [],
+		downloaded: [],
+		deleted: [],
+		bytesUploaded: 0,
+		bytesDownloaded: 0,
+		errors: [],
+	};
+};
+
+export const logUpload = (
+	t: ObsidianGoogleDrive,
+	path: string,
+	bytes: number
+) => {
+	if (!t.activity) return;
+	t.activity.uploaded.push(path);
+	t.activity.bytesUploaded += bytes;
+};
+
+export const logDownload = (
+	t: ObsidianGoogleDrive,
+	path: string,
+	bytes: number
+) => {
+	if (!t.activity) return;
+	t.activity.downloaded.push(path);
+	t.activity.bytesDownloaded += bytes;
+};
+
+export const logDeletion = (t: ObsidianGoogleDrive, deletion: Deletion) =>
+	t.activity?.deleted.push(deletion);
+
+/**
+ * Adds the running sync to the log, dropping the oldest syncs once the log grows too large
+ */
+export const finishActivity = async (
+	t: ObsidianGoogleDrive,
+	aborted?: string
+) => {
+	const { activity } = t;
+	if (!activity) return;
+	t.activity = undefined;
+
+	activity.duration = Date.now() - activity.startedAt;
+	activity.errors = t.syncErrors.map(describeError);
+	if (aborted) activity.aborted = aborted;
+
+	try {
+		const log = [...(await readLog(t)), activity].slice(-MAX_ENTRIES);
+		let json = JSON.stringify(log);
+		while (log.length > 1 && json.length > MAX_SIZE) {
+			log.shift();
+			json = JSON.stringify(log);
+		}
+		await t.app.vault.adapter.write(getLogPath(t), json);
+	} catch (e) {
+		console.error("[GDriveSync] Could not write the activity log", e);
+	}
+};
+
+const describeDeletion = ({ path, from, by, at }: Deletion) => {
+	let text = `Deleted ${path} ${
+		from === "vault" ? "from the vault" : "on Google Drive"
+	}`;
+	if (by) text += ` by ${by}`;
+	if (at) text += ` at ${moment(at).format("YYYY-MM-DD HH:mm")}`;
+	return text;
+};
+
+const summarize = (activity: SyncActivity) => {
+	const parts = [
+		moment(activity.startedAt).format("YYYY-MM-DD HH:mm"),
+		`${TRIGGER_NAMES[activity.trigger]} on ${activity.device}`,
+		`${activity.uploaded.length} up, ${activity.downloaded.length} down, ${activity.deleted.length} deleted`,
+		`${formatBytes(activity.bytesUploaded + activity.bytesDownloaded)}`,
+		`${Math.round(activity.duration / 1000)}s`,
+	];
+	if (activity.errors.length) parts.push(`${activity.errors.length} failed`);
+	if (activity.aborted) parts.push("stopped");
+	return parts.join(" · ");
+};
+
+const mentions = (activity: SyncActivity, query: string) =>
+	[
+		...activity.uploaded,
+		...activity.downloaded,
+		...activity.deleted.map(({ path }) => path),
+		...activity.errors,
+	].some((path) => path.toLowerCase().includes(query));
+
+class ActivityLogModal extends Modal {
+	log: SyncActivity[];
+	listEl: HTMLElement;
+
+	constructor(t: ObsidianGoogleDrive, log: SyncActivity[]) {
+		super(t.app);
+		this.log = log.slice().reverse();
+
+		this.setTitle("Sync activity");
+		new Setting(this.contentEl)
+			.setName("Find a file")
+			.addSearch((search) =>
+				search
+					.setPlaceholder("Path")
+					.onChange((query) =>
+						this.render(query.trim().toLowerCase())
+					)
+			);
+		this.listEl = this.contentEl.createDiv();
+		this.render("");
+	}
+
+	render(query: string) {
+		const { listEl } = this;
+		listEl.empty();
+
+		const log = query
+			? this.log.filter((activity) => mentions(activity, query))
+			: this.log;
+		if (!log.length) {
+			listEl
+				.createEl("p")
+				.setText(
+					query ? "No sync touched this file." : "Nothing synced yet."
+				);
+		}
+
+		log.forEach((activity) => {
+			const details = listEl.createEl("details", {
+				cls: "sync-activity",
+			});
+			details.createEl("summary").setText(summarize(activity));
+
+			const list = details.createEl("ul");
+			const add = (text: string) => {
+				if (query && !text.toLowerCase().includes(query)) return;
+				list.createEl("li", { cls: "operation-file" }).setText(text);
+			};
+			activity.uploaded.forEach((path) => add(`Uploaded ${path}`));
+			activity.downloaded.forEach((path) => add(`Downloaded ${path}`));
+			activity.deleted.forEach((deletion) =>
+				add(describeDeletion(deletion))
+			);
+			activity.errors.forEach((error) => add(`Failed ${error}`));
+			if (activity.aborted) add(`Stopped: ${activity.aborted}`);
+
+			if (query) details.open = true;
+		});
+	}
+}
+
+/**
+ * Shows the syncs made on this device, newest first
+ */
+export const showActivityLog = async (t: ObsidianGoogleDrive) =>
+	new ActivityLogModal(t, await readLog(t)).open();
+
+const activityToMarkdown = (activity: SyncActivity) => {
+	const lines = [`## ${summarize(activity)}`, ""];
+	activity.uploaded.forEach((path) => lines.push(`- Uploaded ${path}`));
+	activity.downloaded.forEach((path) => lines.push(`- Downloaded ${path}`));
+	activity.deleted.forEach((deletion) =>
+		lines.push(`- ${describeDeletion(deletion)}`)
+	);
+	activity.errors.forEach((error) => lines.push(`- Failed ${error}`));
+	if (activity.aborted) lines.push(`- Stopped: ${activity.aborted}`);
+	return lines.join("\n");
+};
+
+/**
+ * Saves the syncs of the last 30 days as a note
+ */
+export const exportActivityLog = async (t: ObsidianGoogleDrive) => {
+	const since = moment().subtract(EXPORT_DAYS, "days").valueOf();
+	const log = (await readLog(t))
+		.filter(({ startedAt }) => startedAt >= since)
+		.reverse();
+
+	const path = `Sync activity ${moment().format("YYYY-MM-DD HH-mm")}.md`;
+	if (await t.app.vault.adapter.exists(path)) {
+		return new Notice(`${path} already exists.`);
+	}
+
+	await t.app.vault.create(
+		path,
+		[
+			`# Sync activity on ${t.getDeviceName()}`,
+			"",
+			log.length
+				? `The last ${EXPORT_DAYS} days, newest first.`
+				: `Nothing synced in the last ${EXPORT_DAYS} days.`,
+			...log.map((activity) => "\n" + activityToMarkdown(activity)),
+		].join("\n") + "\n"
+	);
+	new Notice(`Saved the sync activity to ${path}.`);
+};
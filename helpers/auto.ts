@@ -0,0 +1,180 @@
+import ObsidianGoogleDrive from "main";
+import { Platform } from "obsidian";
+import { startActivity, SyncTrigger } from "./activity";
+import { checkConnection } from "./drive";
+import { pull } from "./pull";
+import { push } from "./push";
+import { ensureVaultId } from "./vault";
+
+/**
+ * The first wait after finding the device offline, doubled on every attempt that fails again
+ */
+const MIN_BACKOFF = 60_000;
+const MAX_BACKOFF = 30 * 60_000;
+
+export interface AutoSyncState {
+	pullTimer?: number;
+	pushTimer?: number;
+	/**
+	 * How long to wait while offline, or 0 when online
+	 */
+	backoff: number;
+	retryAt: number;
+}
+
+/**
+ * Pulls without any notices, like the pull when Obsidian starts, leaving conflicts for a sync the user starts
+ */
+export const backgroundPull = async (
+	t: ObsidianGoogleDrive,
+	trigger: SyncTrigger
+) => {
+	if (t.syncing) return;
+	t.syncing = true;
+	t.syncErrors = [];
+	startActivity(t, trigger);
+	t.ribbonIcon.addClass("spin");
+	t.refreshSyncStatus();
+	await ensureVaultId(t);
+	await pull(t, true, undefined, true);
+	await t.endSync();
+};
+
+const hasPendingChanges = (t: ObsidianGoogleDrive) =>
+	Object.keys(t.settings.operations).length > 0;
+
+/**
+ * Runs a sync unless another one is running, waiting longer and longer between attempts while offline
+ *
+ * @returns Whether the sync ran
+ */
+const syncInBackground = async (
+	t: ObsidianGoogleDrive,
+	sync: (t: ObsidianGoogleDrive) => Promise<unknown>
+) => {
+	const { autoSync } = t;
+	if (t.syncing || Date.now() < autoSync.retryAt) return false;
+
+	if (!(await checkConnection(t))) {
+		autoSync.backoff = Math.min(
+			autoSync.backoff * 2 || MIN_BACKOFF,
+			MAX_BACKOFF
+		);
+		autoSync.retryAt = Date.now() + autoSync.backoff;
+		return false;
+	}
+	autoSync.backoff = 0;
+	autoSync.retryAt = 0;
+
+	// Checked again, since a sync may have started while checking the connection
+	if (t.syncing) return false;
+	await t.runSync(sync);
+	return true;
+};
+
+const autoPush = async (t: ObsidianGoogleDrive) => {
+	t.autoSync.pushTimer = undefined;
+	if (!hasPendingChanges(t)) return;
+
+	const pushed = await syncInBackground(t, (t) =>
+		push(t, undefined, undefined, "idle")
+	);
+	if (pushed) return;
+
+	// Tried again once back online, or after the usual wait if another sync was running
+	const { retryAt } = t.autoSync;
+	queueAutoPush(t, retryAt > Date.now() ? retryAt - Date.now() : undefined);
+};
+
+/**
+ * Pushes once the vault has not changed for the configured number of seconds
+ *
+ * @param delay Overrides the configured wait, e.g. to retry once back online
+ */
+export const queueAutoPush = (t: ObsidianGoogleDrive, delay?: number) => {
+	const { autoPushDelay } = t.settings;
+	window.clearTimeout(t.autoSync.pushTimer);
+	t.autoSync.pushTimer = undefined;
+	if (!autoPushDelay) return;
+
+	t.autoSync.pushTimer = window.setTimeout(
+		() => autoPush(t),
+		delay ?? autoPushDelay * 1000
+	);
+};
+
+/**
+ * Starts pulling every configured number of minutes, replacing the previous schedule
+ */
+export const scheduleAutoPull = (t: ObsidianGoogleDrive) => {
+	const { autoPullInterval } = t.settings;
+	window.clearInterval(t.autoSync.pullTimer);
+	t.autoSync.pullTimer = undefined;
+	if (!autoPullInterval) return;
+
+	t.autoSync.pullTimer = window.setInterval(
+		() => syncInBackground(t, (t) => backgroundPull(t, "interval")),
+		autoPullInterval * 60_000
+	);
+};
+
+/**
+ * Pushes pending changes if there are any, and pulls otherwise
+ */
+const syncNow = (t: ObsidianGoogleDrive, trigger: SyncTrigger) =>
+	syncInBackground(t, (t) =>
+		hasPendingChanges(t)
+			? push(t, undefined, undefined, trigger)
+			: backgroundPull(t, trigger)
+	);
+
+/**
+ * Sets up every automatic sync: on an interval, after editing, when the mobile app is reopened, when coming back online and when quitting
+ */
+export const registerAutoSync = (t: ObsidianGoogleDrive) => {
+	const { vault, workspace } = t.app;
+
+	scheduleAutoPull(t);
+
+	// Queued even while syncing, so that edits made in the meantime are pushed once it ends
+	const onChange = () => queueAutoPush(t);
+	workspace.onLayoutReady(() => {
+		t.registerEvent(vault.on("create", onChange));
+		t.registerEvent(vault.on("delete", onChange));
+		t.registerEvent(vault.on("modify", onChange));
+		t.registerEvent(vault.on("rename", onChange));
+	});
+
+	t.registerDomEvent(document, "visibilitychange", () => {
+		if (
+			Platform.isMobile &&
+			t.settings.syncOnResume &&
+			document.visibilityState === "visible"
+		) {
+			syncNow(t, "resume");
+		}
+	});
+
+	t.registerDomEvent(window, "online", () => {
+		t.autoSync.backoff = 0;
+		t.autoSync.retryAt = 0;
+		if (t.autoSync.pushTimer) queueAutoPush(t, 0);
+	});
+
+	t.registerEvent(
+		workspace.on("quit", (tasks) => {
+			if (!t.settings.pushOnQuit || !hasPendingChanges(t)) return;
+			if (t.syncing || !navigator.onLine) return;
+			tasks.add(() =>
+				t.runSync((t) => push(t, undefined, undefined, "quit"))
+			);
+		})
+	);
+};
+
+export const stopAutoSync = (t: ObsidianGoogleDrive) => {
+	window.clearInterval(t.autoSync.pullTimer);
+	window.clearTimeout(t.autoSync.pushTimer);
+	t.autoSync.pullTimer = undefined;
+	t.autoSync.pushTimer = undefined;
+};
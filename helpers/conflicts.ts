@@ -0,0 +1,250 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, moment, Notice, Setting } from "obsidian";
+import { FileMetadata } from "./drive";
+import { writeBase } from "./merge";
+import { setFileState } from "./scan";
+import { decodeText, renderDiff, withConflictMarkers } from "./diff";
+
+export type ConflictResolution = "local" | "remote" | "both" | "merged";
+
+export interface Conflict {
+	file: FileMetadata;
+	local: ArrayBuffer;
+	remote: ArrayBuffer;
+}
+
+interface ConflictChoice {
+	resolution: ConflictResolution;
+	merged?: string;
+}
+
+const INVALID_FILE_NAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * @returns The path the remote version of a conflicting file is saved to, e.g. `Note (conflict from iOS 2024-01-31 14-05).md`
+ */
+export const conflictCopyPath = (
+	path: string,
+	device: string,
+	date: number | string | Date
+) => {
+	const slashIndex = path.lastIndexOf("/");
+	const folder = path.slice(0, slashIndex + 1);
+	const name = path.slice(slashIndex + 1);
+	const dotIndex = name.lastIndexOf(".");
+	const [baseName, extension] =
+		dotIndex > 0
+			? [name.slice(0, dotIndex), name.slice(dotIndex)]
+			: [name, ""];
+
+	return `${folder}${baseName} (conflict from ${device.replace(
+		INVALID_FILE_NAME_CHARACTERS,
+		"-"
+	)} ${moment(date).format("YYYY-MM-DD HH-mm")})${extension}`;
+};
+
+export const isConflictCopy = (path: string) =>
+	/ \(conflict from .+ \d{4}-\d{2}-\d{2} \d{2}-\d{2}( \d+)?\)[^/()]*$/.test(
+		path
+	);
+
+/**
+ * Whether the Drive copy of a file has changed since the last time this device synced it
+ */
+export const remoteChangedSinceSync = (
+	t: ObsidianGoogleDrive,
+	file: FileMetadata
+) =>
+	t.settings.fileStates[file.properties.path]?.modifiedTime !==
+	file.modifiedTime;
+
+/**
+ * Keeps the remote version of a file next to the local one and queues it for upload
+ * @returns The path of the conflict copy
+ */
+export const saveConflictCopy = async (
+	t: ObsidianGoogleDrive,
+	file: FileMetadata,
+	content: ArrayBuffer
+) => {
+	// Checked and written through the adapter, so that copies of hidden files can be kept too
+	const { adapter } = t.app.vault;
+
+	let path = conflictCopyPath(
+		file.properties.path,
+		file.properties.device || "another device",
+		file.modifiedTime
+	);
+	for (let i = 2; await adapter.exists(path); i++) {
+		path = path.replace(/( \d+)?(\)[^)]*)$/, ` ${i}$2`);
+	}
+
+	await t.upsertFile(path, content, file.modifiedTime);
+	t.settings.operations[path] = "create";
+
+	return path;
+};
+
+export const showConflictsNotice = (paths: string[]) =>
+	new Notice(
+		`Some files were changed both on this device and on Google Drive. The Google Drive versions were kept as:\n${paths
+			.map((path) => `- ${path}`)
+			.join("\n")}`,
+		0
+	);
+
+class ConflictResolutionModal extends Modal {
+	proceed: (choices: ConflictChoice[]) => void;
+	choices: ConflictChoice[] = [];
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		conflicts: Conflict[],
+		proceed: (choices: ConflictChoice[]) => void
+	) {
+		super(t.app);
+		this.proceed = proceed;
+
+		this.setTitle("Resolve conflicts");
+		const description = this.contentEl.createEl("p");
+		const container = this.contentEl.createDiv();
+
+		const choose = (choice: ConflictChoice) => {
+			this.choices.push(choice);
+			if (this.choices.length === conflicts.length) return this.close();
+			render();
+		};
+
+		const render = () => {
+			const { file, local, remote } = conflicts[this.choices.length];
+			const path = file.properties.path;
+			const localText = decodeText(local);
+			const remoteText = decodeText(remote);
+
+			description.setText(
+				`${path} was changed both on this device and on ${
+					file.properties.device || "another device"
+				} (${this.choices.length + 1} of ${conflicts.length}).`
+			);
+			container.empty();
+
+			if (localText === undefined || remoteText === undefined) {
+				container
+					.createEl("p")
+					.setText("This file is binary, so no diff can be shown.");
+			} else {
+				renderDiff(
+					container,
+					localText,
+					remoteText,
+					"This device",
+					"Google Drive"
+				);
+			}
+
+			const buttons = new Setting(container)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Keep local")
+						.onClick(() => choose({ resolution: "local" }))
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Keep remote")
+						.onClick(() => choose({ resolution: "remote" }))
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Keep both")
+						.onClick(() => choose({ resolution: "both" }))
+				);
+
+			if (localText === undefined || remoteText === undefined) return;
+
+			buttons.addButton((btn) =>
+				btn
+					.setButtonText("Edit merged")
+					.setCta()
+					.onClick(() => {
+						container.empty();
+						const textarea = container.createEl("textarea");
+						textarea.addClass("conflict-merge-editor");
+						textarea.value = withConflictMarkers(
+							localText,
+							remoteText,
+							"This device",
+							"Google Drive"
+						);
+
+						new Setting(container)
+							.addButton((btn) =>
+								btn.setButtonText("Back").onClick(render)
+							)
+							.addButton((btn) =>
+								btn
+									.setButtonText("Save merged")
+									.setCta()
+									.onClick(() =>
+										choose({
+											resolution: "merged",
+											merged: textarea.value,
+										})
+									)
+							);
+					})
+			);
+		};
+
+		render();
+	}
+
+	onClose() {
+		this.proceed(this.choices);
+	}
+}
+
+/**
+ * Asks the user how to resolve each conflict and applies their choices, keeping both versions of any left unresolved
+ * @returns The paths of the conflict copies that were created
+ */
+export const resolveConflicts = async (
+	t: ObsidianGoogleDrive,
+	conflicts: Conflict[]
+) => {
+	const choices = await new Promise<ConflictChoice[]>((resolve) => {
+		new ConflictResolutionModal(t, conflicts, resolve).open();
+	});
+
+	const conflictCopies: string[] = [];
+
+	for (const [index, { file, remote }] of conflicts.entries()) {
+		const { path } = file.properties;
+		const { resolution, merged } = choices[index] || {
+			resolution: "both",
+		};
+		// Read through the adapter, since hidden and configuration files are not tracked by the vault
+		if (!(await t.app.vault.adapter.exists(path))) continue;
+		// A pending rename still has to be pushed, and uploads any content change along with it
+		const renamed = t.settings.operations[path] === "rename";
+
+		if (resolution === "remote") {
+			await t.upsertFile(path, remote, file.modifiedTime);
+			if (!renamed) delete t.settings.operations[path];
+		} else if (resolution === "merged" && merged !== undefined) {
+			await t.upsertFile(path, new TextEncoder().encode(merged).buffer);
+			if (!renamed) t.settings.operations[path] = "modify";
+		} else if (resolution === "both") {
+			conflictCopies.push(await saveConflictCopy(t, file, remote));
+		}
+
+		await setFileState(
+			t,
+			path,
+			{ modifiedTime: file.modifiedTime, md5: file.md5Checksum },
+			resolution === "remote"
+		);
+		await writeBase(t, path, remote);
+	}
+
+	return conflictCopies;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, splitLines, toSideBySide } from "./diff";
+
+const apply = (diff: ReturnType<typeof diffLines>) =>
+	diff.filter(({ type }) => type !== "delete").map(({ line }) => line);
+
+const original = (diff: ReturnType<typeof diffLines>) =>
+	diff.filter(({ type }) => type !== "insert").map(({ line }) => line);
+
+describe("diffLines", () => {
+	it("keeps identical texts equal", () => {
+		const lines = ["a", "b", "c"];
+		expect(diffLines(lines, lines)).toEqual(
+			lines.map((line) => ({ type: "equal", line }))
+		);
+	});
+
+	it("finds a changed line between common lines", () => {
+		expect(diffLines(["a", "b", "c"], ["a", "x", "c"])).toEqual([
+			{ type: "equal", line: "a" },
+			{ type: "delete", line: "b" },
+			{ type: "insert", line: "x" },
+			{ type: "equal", line: "c" },
+		]);
+	});
+
+	it("keeps the longest common subsequence", () => {
+		const a = ["a", "b", "c", "d", "e"];
+		const b = ["b", "x", "d", "e", "f"];
+		const diff = diffLines(a, b);
+		expect(diff.filter(({ type }) => type === "equal")).toHaveLength(3);
+		expect(original(diff)).toEqual(a);
+		expect(apply(diff)).toEqual(b);
+	});
+
+	it("handles empty sides", () => {
+		expect(diffLines([], ["a"])).toEqual([{ type: "insert", line: "a" }]);
+		expect(diffLines(["a"], [])).toEqual([{ type: "delete", line: "a" }]);
+	});
+});
+
+describe("splitLines", () => {
+	it("splits both line endings", () => {
+		expect(splitLines("a\r\nb\nc")).toEqual(["a", "b", "c"]);
+	});
+});
+
+describe("toSideBySide", () => {
+	it("pairs up deleted and inserted lines", () => {
+		expect(
+			toSideBySide(diffLines(["a", "b", "c"], ["a", "x", "y", "c"]))
+		).toEqual([
+			{ a: "a", b: "a", changed: false },
+			{ a: "b", b: "x", changed: true },
+			{ a: undefined, b: "y", changed: true },
+			{ a: "c", b: "c", changed: false },
+		]);
+	});
+});
@@ -0,0 +1,188 @@
+export interface DiffLine {
+	type: "equal" | "insert" | "delete";
+	line: string;
+}
+
+/**
+ * Larger inputs are treated as entirely replaced to keep the LCS table in memory bounds
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+export const splitLines = (text: string) => text.split(/\r?\n/);
+
+/**
+ * @returns The decoded text, or undefined for binary files
+ */
+export const decodeText = (content: ArrayBuffer) => {
+	try {
+		return new TextDecoder("utf-8", { fatal: true }).decode(content);
+	} catch {
+		return;
+	}
+};
+
+/**
+ * Line-based diff from `a` to `b` using the longest common subsequence
+ */
+export const diffLines = (a: string[], b: string[]): DiffLine[] => {
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+
+	let end = 0;
+	while (
+		end < a.length - start &&
+		end < b.length - start &&
+		a[a.length - 1 - end] === b[b.length - 1 - end]
+	) {
+		end++;
+	}
+
+	const prefix = a
+		.slice(0, start)
+		.map((line): DiffLine => ({ type: "equal", line }));
+	const suffix = a
+		.slice(a.length - end)
+		.map((line): DiffLine => ({ type: "equal", line }));
+	const aMiddle = a.slice(start, a.length - end);
+	const bMiddle = b.slice(start, b.length - end);
+
+	if (aMiddle.length * bMiddle.length > MAX_DIFF_CELLS) {
+		return [
+			...prefix,
+			...aMiddle.map((line): DiffLine => ({ type: "delete", line })),
+			...bMiddle.map((line): DiffLine => ({ type: "insert", line })),
+			...suffix,
+		];
+	}
+
+	const columns = bMiddle.length + 1;
+	const lengths = new Uint32Array((aMiddle.length + 1) * columns);
+	for (let i = aMiddle.length - 1; i >= 0; i--) {
+		for (let j = bMiddle.length - 1; j >= 0; j--) {
+			lengths[i * columns + j] =
+				aMiddle[i] === bMiddle[j]
+					? lengths[(i + 1) * columns + j + 1] + 1
+					: Math.max(
+							lengths[(i + 1) * columns + j],
+							lengths[i * columns + j + 1]
+					  );
+		}
+	}
+
+	const middle: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < aMiddle.length && j < bMiddle.length) {
+		if (aMiddle[i] === bMiddle[j]) {
+			middle.push({ type: "equal", line: aMiddle[i] });
+			i++;
+			j++;
+		} else if (
+			lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]
+		) {
+			middle.push({ type: "delete", line: aMiddle[i++] });
+		} else {
+			middle.push({ type: "insert", line: bMiddle[j++] });
+		}
+	}
+	while (i < aMiddle.length) {
+		middle.push({ type: "delete", line: aMiddle[i++] });
+	}
+	while (j < bMiddle.length) {
+		middle.push({ type: "insert", line: bMiddle[j++] });
+	}
+
+	return [...prefix, ...middle, ...suffix];
+};
+
+/**
+ * Groups a diff into rows of a side-by-side view, pairing up deleted and inserted lines
+ */
+export const toSideBySide = (diff: DiffLine[]) => {
+	const rows: { a?: string; b?: string; changed: boolean }[] = [];
+	let deleted: string[] = [];
+	let inserted: string[] = [];
+
+	const flush = () => {
+		for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+			rows.push({ a: deleted[i], b: inserted[i], changed: true });
+		}
+		deleted = [];
+		inserted = [];
+	};
+
+	diff.forEach(({ type, line }) => {
+		if (type === "delete") return deleted.push(line);
+		if (type === "insert") return inserted.push(line);
+		flush();
+		rows.push({ a: line, b: line, changed: false });
+	});
+	flush();
+
+	return rows;
+};
+
+/**
+ * Renders a side-by-side diff table of two texts
+ */
+export const renderDiff = (
+	container: HTMLElement,
+	a: string,
+	b: string,
+	aLabel: string,
+	bLabel: string
+) => {
+	const table = container.createDiv("conflict-diff").createEl("table");
+	const header = table.createEl("tr");
+	header.createEl("th").setText(aLabel);
+	header.createEl("th").setText(bLabel);
+
+	toSideBySide(diffLines(splitLines(a), splitLines(b))).forEach(
+		({ a, b, changed }) => {
+			const row = table.createEl("tr");
+			if (changed) row.addClass("conflict-diff-changed");
+			row.createEl("td").setText(a ?? "");
+			row.createEl("td").setText(b ?? "");
+		}
+	);
+};
+
+/**
+ * Merges two versions of a text by wrapping every differing block in git-style conflict markers
+ */
+export const withConflictMarkers = (
+	a: string,
+	b: string,
+	aLabel: string,
+	bLabel: string
+) => {
+	const lines: string[] = [];
+	let deleted: string[] = [];
+	let inserted: string[] = [];
+
+	const flush = () => {
+		if (deleted.length || inserted.length) {
+			lines.push(
+				`<<<<<<< ${aLabel}`,
+				...deleted,
+				"=======",
+				...inserted,
+				`>>>>>>> ${bLabel}`
+			);
+		}
+		deleted = [];
+		inserted = [];
+	};
+
+	diffLines(splitLines(a), splitLines(b)).forEach(({ type, line }) => {
+		if (type === "delete") return deleted.push(line);
+		if (type === "insert") return inserted.push(line);
+		flush();
+		lines.push(line);
+	});
+	flush();
+
+	return lines.join("\n");
+};
@@ -1,7 +1,10 @@
 import ky from "ky";
 import ObsidianGoogleDrive from "main";
-import { getDriveKy } from "./ky";
-import { TAbstractFile, TFolder } from "obsidian";
+import { getDriveKy, getRetryDelay, isRetryable, sleep } from "./ky";
+import { DriveError, withContext } from "./errors";
+import { IGNORE_FILE } from "./ignore";
+import { requestUrl, TAbstractFile, TFolder } from "obsidian";
+import * as SparkMD5 from "spark-md5";
 
 export interface FileMetadata {
 	id: string;
@@ -11,6 +14,21 @@ export interface FileMetadata {
 	starred: boolean;
 	properties: Record<string, string>;
 	modifiedTime: string;
+	md5Checksum?: string;
+	/**
+	 * In bytes, and missing for folders and Google Docs, Sheets and Slides
+	 */
+	size?: string;
+	trashed?: boolean;
+	parents?: string[];
+}
+
+export interface Revision {
+	id: string;
+	modifiedTime: string;
+	keepForever: boolean;
+	size?: string;
+	lastModifyingUser?: { displayName: string };
 }
 
 type StringSearch = string | { contains: string } | { not: string };
@@ -21,25 +39,114 @@ interface QueryMatch {
 	mimeType?: StringSearch | StringSearch[];
 	parent?: string;
 	starred?: boolean;
+	sharedWithMe?: boolean;
 	query?: string;
 	properties?: Record<string, string>;
 	modifiedTime?: DateComparison;
 }
 
+export interface UploadOptions {
+	/**
+	 * Vault path used to resume an interrupted upload of the same file
+	 */
+	path?: string;
+	onProgress?: (uploaded: number, total: number) => void;
+}
+
 export const folderMimeType = "application/vnd.google-apps.folder";
 
-const BLACKLISTED_CONFIG_FILES = [
-	"graph.json",
-	"workspace.json",
-	"workspace-mobile.json",
-];
+/**
+ * A resumable upload that was interrupted before finishing
+ */
+interface UploadSession {
+	uri: string;
+	size: number;
+	/**
+	 * Hash of the content being uploaded, so that a session is only resumed with the same bytes
+	 */
+	md5: string;
+}
+
+/**
+ * Stored in local storage rather than the settings, since the settings are synced and a session only belongs to the device that started it
+ */
+const UPLOAD_SESSIONS_KEY = "google-drive-sync-upload-sessions";
+
+const loadUploadSessions = (
+	t: ObsidianGoogleDrive
+): Record<string, UploadSession> =>
+	(t.app as any).loadLocalStorage(UPLOAD_SESSIONS_KEY) || {};
+
+const saveUploadSessions = (
+	t: ObsidianGoogleDrive,
+	sessions: Record<string, UploadSession>
+) =>
+	(t.app as any).saveLocalStorage(
+		UPLOAD_SESSIONS_KEY,
+		Object.keys(sessions).length ? sessions : null
+	);
 
-const WHITELISTED_PLUGIN_FILES = [
-	"manifest.json",
-	"styles.css",
-	"main.js",
-	"data.json",
-];
+/**
+ * Forgets an interrupted upload, or every one if no path is given
+ *
+ * @returns The sessions as they were before, to put back with {@link restoreUploadSessions}
+ */
+export const clearUploadSession = (t: ObsidianGoogleDrive, path?: string) => {
+	const sessions = loadUploadSessions(t);
+	const remaining = { ...sessions };
+	if (path) delete remaining[path];
+	saveUploadSessions(t, path ? remaining : {});
+	return sessions;
+};
+
+export const restoreUploadSessions = (
+	t: ObsidianGoogleDrive,
+	sessions: Record<string, UploadSession>
+) => saveUploadSessions(t, sessions);
+
+/**
+ * Must be a multiple of 256 KiB
+ */
+const RESUMABLE_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * The most calls Google Drive accepts in one batch request
+ */
+const BATCH_REQUEST_LIMIT = 100;
+
+/**
+ * The most folders a single search is limited to, so that the query stays within the length Google Drive accepts
+ */
+const PARENTS_PER_QUERY = 50;
+
+interface BatchUpdate {
+	id: string;
+	// A null property is removed from the file
+	metadata: Partial<Omit<FileMetadata, "properties">> & {
+		properties?: Record<string, string | null>;
+	};
+}
+
+/**
+ * Splits the response to a batch request into a response for each request in it, by the index it was sent with
+ */
+const parseBatchResponse = (text: string) => {
+	const responses: Response[] = [];
+	text.split(/^--batch\S*/m).forEach((part) => {
+		const index = part.match(/Content-ID: <response-item-(\d+)>/)?.[1];
+		const status = part.match(/HTTP\/1\.1 (\d{3})/)?.[1];
+		if (index === undefined || !status) return;
+		// Only the body of an error is needed, to tell rate limits apart
+		const bodyStart = part.indexOf("{");
+		responses[Number(index)] = new Response(
+			Number(status) < 300 || bodyStart === -1
+				? null
+				: part.slice(bodyStart).trim(),
+			{ status: Number(status) }
+		);
+	});
+	return responses;
+};
 
 const stringSearchToQuery = (search: StringSearch) => {
 	if (typeof search === "string") return `='${search.replace(/'/g, "\\'")}'`;
@@ -58,6 +165,8 @@ const queryHandlers = {
 		"mimeType" + stringSearchToQuery(mimeType),
 	parent: (parent: string) => `'${parent}' in parents`,
 	starred: (starred: boolean) => `starred=${starred}`,
+	sharedWithMe: (sharedWithMe: boolean) =>
+		sharedWithMe ? "sharedWithMe" : "not sharedWithMe",
 	query: (query: string) => `fullText contains '${query}'`,
 	properties: (properties: Record<string, string>) =>
 		Object.entries(properties).map(
@@ -77,7 +186,34 @@ export const fileListToMap = (files: { id: string; name: string }[]) =>
 export const getDriveClient = (t: ObsidianGoogleDrive) => {
 	const drive = getDriveKy(t);
 
-	const getQuery = (matches: QueryMatch[]) =>
+	/**
+	 * Adds the query parameters a request needs to reach the shared drive the vault is stored on, if any
+	 */
+	const onDrive = (
+		url: string,
+		scope: "file" | "list" | "changes" | "changesStart" = "file"
+	) => {
+		const { sharedDriveId } = t.settings;
+		if (!sharedDriveId) return url;
+
+		const params = new URLSearchParams({ supportsAllDrives: "true" });
+		if (scope !== "file") params.set("driveId", sharedDriveId);
+		if (scope === "list" || scope === "changes") {
+			params.set("includeItemsFromAllDrives", "true");
+		}
+		if (scope === "list") params.set("corpora", "drive");
+		return `${url}${url.includes("?") ? "&" : "?"}${params.toString()}`;
+	};
+
+	/**
+	 * Scopes a query to files synced from this vault, by the ID it keeps however the vault is renamed
+	 */
+	const vaultQuery = () =>
+		`properties has { key='vaultId' and value='${escapeQueryString(
+			t.settings.vaultId
+		)}' }`;
+
+	const getQuery = (matches: QueryMatch[], trashed = false, inVault = true) =>
 		encodeURIComponent(
 			`(${matches
 				.map((match) => {
@@ -97,9 +233,9 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 						)
 						.join(" and ")})`;
 				})
-				.join(
-					" or "
-				)}) and trashed=false and properties has { key='vault' and value='${escapeQueryString(t.app.vault.getName())}' }`
+				.join(" or ")}) and trashed=${trashed}${
+				inVault ? ` and ${vaultQuery()}` : ""
+			}`
 		);
 
 	const paginateFiles = async ({
@@ -115,28 +251,44 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 			"description",
 			"properties",
 		],
+		trashed = false,
+		inVault = true,
 	}: {
 		matches?: QueryMatch[];
 		order?: "ascending" | "descending";
 		pageToken?: string;
 		pageSize?: number;
 		include?: (keyof FileMetadata)[];
+		/**
+		 * Searches the trash instead
+		 */
+		trashed?: boolean;
+		/**
+		 * Only finds files synced from this vault, unlike e.g. folders to store the vault in
+		 */
+		inVault?: boolean;
 	}) => {
-		const files = await drive
-			.get(
-				`drive/v3/files?fields=nextPageToken,files(${include.join(
-					","
-				)})&pageSize=${pageSize}&q=${
-					matches ? getQuery(matches) : "trashed=false"
-				}${
-					matches?.find(({ query }) => query)
-						? ""
-						: "&orderBy=name" +
-						  (order === "ascending" ? "" : " desc")
-				}${pageToken ? "&pageToken=" + pageToken : ""}`
-			)
-			.json<any>();
-		if (!files) return;
+		const files = await withContext("list", undefined, () =>
+			drive
+				.get(
+					onDrive(
+						`drive/v3/files?fields=nextPageToken,files(${include.join(
+							","
+						)})&pageSize=${pageSize}&q=${
+							matches
+								? getQuery(matches, trashed, inVault)
+								: `trashed=${trashed}`
+						}${
+							matches?.find(({ query }) => query)
+								? ""
+								: "&orderBy=name" +
+								  (order === "ascending" ? "" : " desc")
+						}${pageToken ? "&pageToken=" + pageToken : ""}`,
+						"list"
+					)
+				)
+				.json<any>()
+		);
 		return files as {
 			nextPageToken?: string;
 			files: FileMetadata[];
@@ -148,11 +300,12 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 			matches?: QueryMatch[];
 			order?: "ascending" | "descending";
 			include?: (keyof FileMetadata)[];
+			trashed?: boolean;
+			inVault?: boolean;
 		},
 		includeObsidian = false
 	) => {
 		const files = await paginateFiles({ ...data, pageSize: 1000 });
-		if (!files) return;
 
 		while (files.nextPageToken) {
 			const nextPage = await paginateFiles({
@@ -160,7 +313,6 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 				pageToken: files.nextPageToken,
 				pageSize: 1000,
 			});
-			if (!nextPage) return;
 			files.files.push(...nextPage.files);
 			files.nextPageToken = nextPage.nextPageToken;
 		}
@@ -181,34 +333,33 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 
 	const getRootFolderId = async () => {
 		console.log("[GDriveSync] Getting root folder ID");
+		if (t.settings.rootFolderId) return t.settings.rootFolderId;
 		
 		// Step 1: Ensure "Obsidian" container folder exists
 		let obsidianFolderId: string;
+		// A shared drive's ID is also the ID of its top folder
+		const driveRootId = t.settings.sharedDriveId || "root";
 		
 		// Search for existing Obsidian container folder
 		const obsidianFolders = await drive
-			.get(`drive/v3/files?q=${encodeURIComponent(
-				`name='Obsidian' and mimeType='${folderMimeType}' and trashed=false and 'root' in parents`
-			)}&fields=files(id,name)`)
+			.get(onDrive(`drive/v3/files?q=${encodeURIComponent(
+				`name='Obsidian' and mimeType='${folderMimeType}' and trashed=false and '${driveRootId}' in parents`
+			)}&fields=files(id,name)`, "list"))
 			.json<any>();
 		
 		if (!obsidianFolders?.files?.length) {
 			console.log("[GDriveSync] Creating Obsidian container folder");
 			// Create Obsidian container folder
 			const obsidianFolder = await drive
-				.post(`drive/v3/files`, {
+				.post(onDrive(`drive/v3/files`), {
 					json: {
 						name: "Obsidian",
 						mimeType: folderMimeType,
 						description: "Obsidian Vaults Container",
-						parents: ["root"],
+						parents: [driveRootId],
 					},
 				})
 				.json<any>();
-			if (!obsidianFolder) {
-				console.error("[GDriveSync] Failed to create Obsidian container folder");
-				return;
-			}
 			obsidianFolderId = obsidianFolder.id;
 			console.log("[GDriveSync] Created Obsidian container folder with ID:", obsidianFolderId);
 		} else {
@@ -218,20 +369,20 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 		
 		// Step 2: Ensure vault folder exists inside Obsidian container
 		const vaultName = t.app.vault.getName();
-		console.log("[GDriveSync] Looking for vault folder:", vaultName);
+		console.log("[GDriveSync] Looking for vault folder:", t.settings.vaultId);
 		
-		// Search for vault folder inside Obsidian container
+		// Search for vault folder inside Obsidian container, by ID since the vault may have been renamed
 		const vaultFolders = await drive
-			.get(`drive/v3/files?q=${encodeURIComponent(
-				`name='${escapeQueryString(vaultName)}' and mimeType='${folderMimeType}' and trashed=false and '${obsidianFolderId}' in parents`
-			)}&fields=files(id,name,properties)`)
+			.get(onDrive(`drive/v3/files?q=${encodeURIComponent(
+				`${vaultQuery()} and mimeType='${folderMimeType}' and trashed=false and '${obsidianFolderId}' in parents`
+			)}&fields=files(id,name,properties)`, "list"))
 			.json<any>();
 		
 		if (!vaultFolders?.files?.length) {
 			console.log("[GDriveSync] Creating vault folder inside Obsidian container");
 			// Create vault folder inside Obsidian container
 			const vaultFolder = await drive
-				.post(`drive/v3/files`, {
+				.post(onDrive(`drive/v3/files`), {
 					json: {
 						name: vaultName,
 						mimeType: folderMimeType,
@@ -240,14 +391,11 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 						properties: {
 							obsidian: "vault",
 							vault: vaultName,
+							vaultId: t.settings.vaultId,
 						},
 					},
 				})
 				.json<any>();
-			if (!vaultFolder) {
-				console.error("[GDriveSync] Failed to create vault folder");
-				return;
-			}
 			console.log("[GDriveSync] Created vault folder with ID:", vaultFolder.id);
 			return vaultFolder.id as string;
 		} else {
@@ -269,131 +417,306 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 		properties?: Record<string, string>;
 		modifiedTime?: string;
 	}) => {
-		if (!parent) {
-			parent = await getRootFolderId();
-			if (!parent) return;
-		}
+		if (!parent) parent = await getRootFolderId();
 
 		if (!properties) properties = {};
 		if (!properties.vault) properties.vault = t.app.vault.getName();
+		if (!properties.vaultId) properties.vaultId = t.settings.vaultId;
 
-		const folder = await drive
-			.post(`drive/v3/files`, {
-				json: {
-					name,
-					mimeType: folderMimeType,
-					description,
-					parents: [parent],
-					properties,
-					modifiedTime,
-				},
-			})
-			.json<any>();
-		if (!folder) return;
+		const folder = await withContext(
+			"createFolder",
+			properties.path,
+			() =>
+				drive
+					.post(onDrive(`drive/v3/files`), {
+						json: {
+							name,
+							mimeType: folderMimeType,
+							description,
+							parents: [parent],
+							properties,
+							modifiedTime,
+						},
+					})
+					.json<any>()
+		);
 		return folder.id as string;
 	};
 
-	const uploadFile = async (
+	/**
+	 * @returns The number of bytes Google Drive has received, the file ID if the upload is already complete, or undefined if the session expired
+	 */
+	const getUploadStatus = async (uri: string, size: number) => {
+		const response = await drive.put(uri, {
+			prefixUrl: "",
+			headers: { "Content-Range": `bytes */${size}` },
+			throwHttpErrors: false,
+		});
+		if (response.ok) {
+			return { id: (await response.json<any>()).id as string };
+		}
+		if (response.status !== 308) return;
+		return { offset: rangeToOffset(response.headers.get("Range")) };
+	};
+
+	const uploadResumable = async (
+		method: "post" | "patch",
+		url: string,
+		metadata: Record<string, unknown>,
 		file: Blob,
-		name: string,
-		parent?: string,
-		metadata?: Partial<Omit<FileMetadata, "id">>
+		{ path, onProgress }: UploadOptions = {}
 	) => {
-		if (!parent) {
-			parent = await getRootFolderId();
-			if (!parent) return;
+		let session = path ? loadUploadSessions(t)[path] : undefined;
+		const hash = path ? md5(await file.arrayBuffer()) : "";
+		let offset = 0;
+
+		if (session && session.size === file.size && session.md5 === hash) {
+			const status = await getUploadStatus(session.uri, file.size);
+			if (status?.id) {
+				if (path) clearUploadSession(t, path);
+				return status.id;
+			}
+			if (status) offset = status.offset || 0;
+			else session = undefined;
+		} else {
+			session = undefined;
 		}
 
-		if (!metadata) metadata = {};
-		if (!metadata.properties) metadata.properties = {};
-		if (!metadata.properties.vault) {
-			metadata.properties.vault = t.app.vault.getName();
+		if (!session) {
+			const response = await drive[method](url, {
+				json: metadata,
+				headers: {
+					"X-Upload-Content-Type":
+						file.type || "application/octet-stream",
+					"X-Upload-Content-Length": String(file.size),
+				},
+			});
+			const uri = response.headers.get("Location");
+			if (!uri) {
+				throw new DriveError({
+					message: "Google Drive did not start an upload session.",
+					status: response.status,
+				});
+			}
+			session = { uri, size: file.size, md5: hash };
+			if (path) {
+				saveUploadSessions(t, {
+					...loadUploadSessions(t),
+					[path]: session,
+				});
+			}
 		}
 
-		const form = new FormData();
-		form.append(
-			"metadata",
-			new Blob(
-				[
-					JSON.stringify({
-						name,
-						mimeType: file.type,
-						parents: [parent],
-						...metadata,
-					}),
-				],
-				{ type: "application/json" }
-			)
-		);
-		form.append("file", file);
+		let retryCount = 0;
 
-		const result = await drive
-			.post(`upload/drive/v3/files?uploadType=multipart&fields=id`, {
-				body: form,
-			})
-			.json<any>();
-		if (!result) return;
+		while (offset < file.size) {
+			onProgress?.(offset, file.size);
+			const end = Math.min(offset + RESUMABLE_CHUNK_SIZE, file.size);
+			const response = await drive.put(session.uri, {
+				prefixUrl: "",
+				headers: {
+					"Content-Range": `bytes ${offset}-${end - 1}/${file.size}`,
+				},
+				body: file.slice(offset, end),
+				throwHttpErrors: false,
+			});
+
+			if (response.ok) {
+				onProgress?.(file.size, file.size);
+				if (path) clearUploadSession(t, path);
+				return (await response.json<any>()).id as string;
+			}
+
+			if (response.status === 308) {
+				offset = response.headers.has("Range")
+					? rangeToOffset(response.headers.get("Range"))
+					: end;
+				continue;
+			}
+
+			// The chunk may have been partially received, so ask Drive where to continue from
+			if (
+				retryCount >= t.settings.maxRetries ||
+				!(await isRetryable(response))
+			) {
+				throw await DriveError.fromResponse(response);
+			}
+			await sleep(getRetryDelay(retryCount++));
+			const status = await getUploadStatus(session.uri, file.size);
+			if (!status) {
+				if (path) clearUploadSession(t, path);
+				throw new DriveError({
+					message: "The upload session expired.",
+					status: 404,
+				});
+			}
+			if (status.id) {
+				if (path) clearUploadSession(t, path);
+				return status.id;
+			}
+			offset = status.offset || 0;
+		}
 
-		return result.id as string;
+		throw new DriveError({
+			message: "The upload did not complete.",
+			status: 0,
+		});
 	};
 
-	const updateFile = async (
+	const isLarge = (file: Blob) =>
+		file.size >= t.settings.resumableUploadThreshold * 1024 * 1024;
+
+	const uploadFile = async (
+		file: Blob,
+		name: string,
+		parent?: string,
+		metadata?: Partial<Omit<FileMetadata, "id">>,
+		options?: UploadOptions
+	) =>
+		withContext("upload", metadata?.properties?.path, async () => {
+			if (!parent) parent = await getRootFolderId();
+
+			if (!metadata) metadata = {};
+			if (!metadata.properties) metadata.properties = {};
+			if (!metadata.properties.vault) {
+				metadata.properties.vault = t.app.vault.getName();
+			}
+			if (!metadata.properties.vaultId) {
+				metadata.properties.vaultId = t.settings.vaultId;
+			}
+
+			if (isLarge(file)) {
+				return uploadResumable(
+					"post",
+					onDrive(`upload/drive/v3/files?uploadType=resumable&fields=id`),
+					{ name, mimeType: file.type, parents: [parent], ...metadata },
+					file,
+					{ path: metadata.properties.path, ...options }
+				);
+			}
+
+			const form = new FormData();
+			form.append(
+				"metadata",
+				new Blob(
+					[
+						JSON.stringify({
+							name,
+							mimeType: file.type,
+							parents: [parent],
+							...metadata,
+						}),
+					],
+					{ type: "application/json" }
+				)
+			);
+			form.append("file", file);
+
+			const result = await drive
+				.post(
+					onDrive(`upload/drive/v3/files?uploadType=multipart&fields=id`),
+					{ body: form }
+				)
+				.json<any>();
+
+			return result.id as string;
+		});
+
+	const updateFile = (
 		id: string,
 		newContent: Blob,
-		newMetadata: Partial<Omit<FileMetadata, "id">> = {}
-	) => {
-		const form = new FormData();
-		form.append(
-			"metadata",
-			new Blob([JSON.stringify(newMetadata)], {
-				type: "application/json",
-			})
-		);
-		form.append("file", newContent);
+		newMetadata: Partial<Omit<FileMetadata, "id">> = {},
+		options?: UploadOptions
+	) =>
+		withContext("update", options?.path, async () => {
+			if (isLarge(newContent)) {
+				return uploadResumable(
+					"patch",
+					onDrive(
+						`upload/drive/v3/files/${id}?uploadType=resumable&fields=id`
+					),
+					newMetadata,
+					newContent,
+					options
+				);
+			}
 
-		const result = await drive
-			.patch(
-				`upload/drive/v3/files/${id}?uploadType=multipart&fields=id`,
-				{
-					body: form,
-				}
-			)
-			.json<any>();
-		if (!result) return;
+			const form = new FormData();
+			form.append(
+				"metadata",
+				new Blob([JSON.stringify(newMetadata)], {
+					type: "application/json",
+				})
+			);
+			form.append("file", newContent);
 
-		return result.id as string;
-	};
+			const result = await drive
+				.patch(
+					onDrive(
+						`upload/drive/v3/files/${id}?uploadType=multipart&fields=id`
+					),
+					{
+						body: form,
+					}
+				)
+				.json<any>();
+
+			return result.id as string;
+		});
 
-	const updateFileMetadata = async (
+	const updateFileMetadata = (
 		id: string,
-		metadata: Partial<Omit<FileMetadata, "id">>
-	) => {
-		const result = await drive
-			.patch(`drive/v3/files/${id}`, {
-				json: metadata,
-			})
-			.json<any>();
-		if (!result) return;
-		return result.id as string;
-	};
+		metadata: Partial<Omit<FileMetadata, "id">>,
+		path?: string
+	) =>
+		withContext("metadata", path ?? metadata.properties?.path, async () => {
+			const result = await drive
+				.patch(onDrive(`drive/v3/files/${id}`), {
+					json: metadata,
+				})
+				.json<any>();
+			return result.id as string;
+		});
 
-	const deleteFile = async (id: string) => {
-		const result = await drive.delete(`drive/v3/files/${id}`);
-		if (!result.ok) return;
-		return true;
-	};
+	const deleteFile = (id: string, path?: string) =>
+		withContext("delete", path, async () => {
+			await drive.delete(onDrive(`drive/v3/files/${id}`));
+			return true;
+		});
 
-	const getFile = (id: string) =>
-		drive.get(`drive/v3/files/${id}?alt=media&acknowledgeAbuse=true`);
+	const getFile = (id: string, path?: string) =>
+		withContext("download", path, () =>
+			drive
+				.get(
+					onDrive(`drive/v3/files/${id}?alt=media&acknowledgeAbuse=true`)
+				)
+				.arrayBuffer()
+		);
 
-	const getFileMetadata = (id: string) =>
-		drive.get(`drive/v3/files/${id}`).json<FileMetadata>();
+	/**
+	 * Converts a Google Docs, Sheets or Slides file, which has no content of its own to download
+	 */
+	const exportFile = (id: string, mimeType: string, path?: string) =>
+		withContext("download", path, () =>
+			drive
+				.get(
+					`drive/v3/files/${id}/export?${new URLSearchParams({
+						mimeType,
+					}).toString()}`
+				)
+				.arrayBuffer()
+		);
+
+	const getFileMetadata = (id: string, path?: string) =>
+		withContext("metadata", path, () =>
+			drive.get(onDrive(`drive/v3/files/${id}`)).json<FileMetadata>()
+		);
 
 	const idFromPath = async (path: string) => {
 		const files = await searchFiles({
 			matches: [{ properties: { path } }],
 		});
-		if (!files?.length) return;
+		if (!files.length) return;
 		return files[0].id as string;
 	};
 
@@ -401,7 +724,6 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 		const files = await searchFiles({
 			matches: paths.map((path) => ({ properties: { path } })),
 		});
-		if (!files) return;
 		return files.map((file) => ({
 			id: file.id,
 			path: file.properties.path,
@@ -417,7 +739,7 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 				`--batch_boundary`,
 				"Content-Type: application/http",
 				"",
-				`DELETE /drive/v3/files/${fileId} HTTP/1.1`,
+				`DELETE /${onDrive(`drive/v3/files/${fileId}`)} HTTP/1.1`,
 				"",
 				"",
 			].join("\r\n");
@@ -427,6 +749,78 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 
 		body.append("", "--batch_boundary--");
 
+		return withContext("delete", undefined, () =>
+			drive
+				.post(`batch/drive/v3`, {
+					headers: {
+						"Content-Type":
+							"multipart/mixed; boundary=batch_boundary",
+					},
+					body,
+				})
+				.text()
+		);
+	};
+
+	/**
+	 * Renames and/or moves a file in place, keeping its ID, revisions and sharing
+	 */
+	const renameFile = (
+		id: string,
+		name: string,
+		parent: string | undefined,
+		path: string
+	) =>
+		withContext("rename", path, async () => {
+			if (!parent) parent = await getRootFolderId();
+
+			const { parents } = await drive
+				.get(onDrive(`drive/v3/files/${id}?fields=parents`))
+				.json<{ parents: string[] }>();
+
+			const params = new URLSearchParams({ fields: "id" });
+			if (!parents.includes(parent)) {
+				params.set("addParents", parent);
+				params.set("removeParents", parents.join(","));
+			}
+
+			const result = await drive
+				.patch(onDrive(`drive/v3/files/${id}?${params.toString()}`), {
+					json: {
+						name,
+						properties: { path },
+						modifiedTime: new Date().toISOString(),
+					},
+				})
+				.json<any>();
+			return result.id as string;
+		});
+
+	/**
+	 * Sends one batch of metadata updates
+	 *
+	 * @returns The updates that failed, along with Google's response to each
+	 */
+	const sendBatchUpdate = async (updates: BatchUpdate[]) => {
+		const body =
+			updates
+				.map(({ id, metadata }, index) =>
+					[
+						`--batch_boundary`,
+						"Content-Type: application/http",
+						`Content-ID: <item-${index}>`,
+						"",
+						`PATCH /${onDrive(
+							`drive/v3/files/${id}?fields=id`
+						)} HTTP/1.1`,
+						"Content-Type: application/json",
+						"",
+						JSON.stringify(metadata),
+						"",
+					].join("\r\n")
+				)
+				.join("") + "--batch_boundary--";
+
 		const result = await drive
 			.post(`batch/drive/v3`, {
 				headers: {
@@ -435,50 +829,218 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 				body,
 			})
 			.text();
-		if (!result) return;
-		return result;
+
+		const responses = parseBatchResponse(result);
+		return updates.flatMap((update, index) => {
+			const response = responses[index];
+			// Retried like a server error if Google left it out
+			if (!response) {
+				const missing = new Response(null, { status: 502 });
+				return [{ update, response: missing }];
+			}
+			return response.ok ? [] : [{ update, response }];
+		});
 	};
 
-	const getChangesStartToken = async () => {
-		const result = await drive
-			.get(`drive/v3/changes/startPageToken`)
-			.json<any>();
-		if (!result) return;
-		return result.startPageToken as string;
+	/**
+	 * Updates the metadata of many files in as few requests as possible, retrying rate limited updates and failing if any other single update fails
+	 */
+	const batchUpdate = async (updates: BatchUpdate[]) => {
+		for (let i = 0; i < updates.length; i += BATCH_REQUEST_LIMIT) {
+			let pending = updates.slice(i, i + BATCH_REQUEST_LIMIT);
+
+			for (let retryCount = 0; pending.length; retryCount++) {
+				const failed = await sendBatchUpdate(pending);
+				if (!failed.length) break;
+
+				const retryable = await Promise.all(
+					failed.map(({ response }) => isRetryable(response))
+				);
+				if (
+					retryCount >= t.settings.maxRetries ||
+					!retryable.every(Boolean)
+				) {
+					const error = await DriveError.fromResponse(
+						failed[retryable.indexOf(false)]?.response ||
+							failed[0].response
+					);
+					error.message = `${failed.length} file(s) could not be updated: ${error.message}`;
+					throw error;
+				}
+
+				await sleep(getRetryDelay(retryCount));
+				pending = failed.map(({ update }) => update);
+			}
+		}
 	};
 
-	const getChanges = async (startToken: string) => {
-		if (!startToken) return [];
+	/**
+	 * Updates the properties of many files, e.g. the paths of everything inside a renamed folder
+	 */
+	const batchUpdateProperties = (
+		files: { id: string; properties: Record<string, string> }[]
+	) =>
+		withContext("metadata", undefined, () =>
+			batchUpdate(
+				files.map(({ id, properties }) => ({
+					id,
+					metadata: { properties },
+				}))
+			)
+		);
+
+	/**
+	 * Moves files to the Google Drive trash, where they can still be restored from for 30 days
+	 *
+	 * @param device Recorded on each file, so that other devices can tell which one deleted it
+	 */
+	const batchTrash = (ids: string[], device?: string) =>
+		withContext("delete", undefined, () =>
+			batchUpdate(
+				ids.map((id) => ({
+					id,
+					metadata: {
+						trashed: true,
+						...(device && { properties: { deletedBy: device } }),
+					},
+				}))
+			)
+		);
+
+	/**
+	 * Takes files out of the trash, marking them as modified so that other devices pull them again
+	 */
+	const batchRestore = (ids: string[]) =>
+		withContext("restore", undefined, () => {
+			const modifiedTime = new Date().toISOString();
+			return batchUpdate(
+				ids.map((id) => ({
+					id,
+					metadata: {
+						trashed: false,
+						modifiedTime,
+						properties: { deletedBy: null },
+					},
+				}))
+			);
+		});
+
+	const getRevisions = (id: string, path?: string) =>
+		withContext("revisions", path, async () => {
+			const revisions: Revision[] = [];
+			let pageToken: string | undefined;
+			do {
+				const result = await drive
+					.get(
+						`drive/v3/files/${id}/revisions?${new URLSearchParams({
+							fields: "nextPageToken,revisions(id,modifiedTime,keepForever,size,lastModifyingUser/displayName)",
+							pageSize: "1000",
+							...(pageToken ? { pageToken } : {}),
+						}).toString()}`
+					)
+					.json<any>();
+				revisions.push(...result.revisions);
+				pageToken = result.nextPageToken;
+			} while (pageToken);
+			return revisions;
+		});
 
-		const request = (token: string) =>
+	const getRevision = (id: string, revisionId: string, path?: string) =>
+		withContext("revisions", path, () =>
 			drive
-				.get(
-					`drive/v3/changes?${new URLSearchParams({
-						pageToken: token,
-						pageSize: "1000",
-						includeRemoved: "true",
-					}).toString()}`
-				)
+				.get(`drive/v3/files/${id}/revisions/${revisionId}?alt=media`)
+				.arrayBuffer()
+		);
+
+	/**
+	 * Pins a revision so that Google Drive never deletes it, or unpins it again
+	 */
+	const setRevisionKeepForever = (
+		id: string,
+		revisionId: string,
+		keepForever: boolean,
+		path?: string
+	) =>
+		withContext("revisions", path, () =>
+			drive
+				.patch(`drive/v3/files/${id}/revisions/${revisionId}`, {
+					json: { keepForever },
+				})
+				.json<Revision>()
+		);
+
+	/**
+	 * @returns The shared drives the user is a member of, any of which can hold the vault instead of My Drive
+	 */
+	const listSharedDrives = () =>
+		withContext("list", undefined, async () => {
+			const drives: { id: string; name: string }[] = [];
+			let pageToken: string | undefined;
+			do {
+				const result = await drive
+					.get(
+						`drive/v3/drives?${new URLSearchParams({
+							fields: "nextPageToken,drives(id,name)",
+							pageSize: "100",
+							...(pageToken ? { pageToken } : {}),
+						}).toString()}`
+					)
+					.json<any>();
+				drives.push(...result.drives);
+				pageToken = result.nextPageToken;
+			} while (pageToken);
+			return drives;
+		});
+
+	const getChangesStartToken = () =>
+		withContext("changes", undefined, async () => {
+			const result = await drive
+				.get(onDrive(`drive/v3/changes/startPageToken`, "changesStart"))
 				.json<any>();
+			return result.startPageToken as string;
+		});
 
-		const result = await request(startToken);
-		if (!result) return;
-		while (result.nextPageToken) {
-			const nextPage = await request(result.nextPageToken);
-			if (!nextPage) return;
-			result.changes.push(...nextPage.changes);
-			result.newStartPageToken = nextPage.newStartPageToken;
-			result.nextPageToken = nextPage.nextPageToken;
-		}
+	const getChanges = (startToken: string) =>
+		withContext("changes", undefined, async () => {
+			if (!startToken) return [];
 
-		return result.changes as {
-			kind: string;
-			removed: boolean;
-			file: FileMetadata;
-			fileId: string;
-			time: string;
-		}[];
-	};
+			const request = (token: string) =>
+				drive
+					.get(
+						onDrive(
+							`drive/v3/changes?${new URLSearchParams({
+								pageToken: token,
+								pageSize: "1000",
+								includeRemoved: "true",
+								fields: "nextPageToken,newStartPageToken,changes(kind,removed,fileId,time,file(id,name,mimeType,trashed,properties))",
+							}).toString()}`,
+							"changes"
+						)
+					)
+					.json<any>();
+
+			const result = await request(startToken);
+			while (result.nextPageToken) {
+				const nextPage = await request(result.nextPageToken);
+				result.changes.push(...nextPage.changes);
+				result.newStartPageToken = nextPage.newStartPageToken;
+				result.nextPageToken = nextPage.nextPageToken;
+			}
+
+			// Trashed files are gone from the vault just like permanently deleted ones
+			return (
+				result.changes as {
+					kind: string;
+					removed: boolean;
+					file?: FileMetadata;
+					fileId: string;
+					time: string;
+				}[]
+			).map((change) => ({
+				...change,
+				removed: change.removed || !!change.file?.trashed,
+			}));
+		});
 
 	const deleteFilesMinimumOperations = async (files: TAbstractFile[]) => {
 		const folders = files.filter(
@@ -513,11 +1075,49 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 		await Promise.all(files.map((file) => t.deleteFile(file)));
 	};
 
+	/**
+	 * Google Docs, Sheets and Slides created in the web UI lack the vault properties, so they are found by type and by the folders they are in instead
+	 */
+	const searchNativeFiles = (
+		mimeTypes: string[],
+		modifiedAfter: string,
+		parentIds: string[]
+	) =>
+		withContext("list", undefined, async () => {
+			const types = mimeTypes
+				.map((mimeType) => `mimeType='${mimeType}'`)
+				.join(" or ");
+			const files: FileMetadata[] = [];
+			for (let i = 0; i < parentIds.length; i += PARENTS_PER_QUERY) {
+				const parents = parentIds
+					.slice(i, i + PARENTS_PER_QUERY)
+					.map(queryHandlers.parent)
+					.join(" or ");
+				const q = `(${types}) and (${parents}) and trashed=false and modifiedTime>'${modifiedAfter}'`;
+				let pageToken: string | undefined;
+				do {
+					const result = await drive
+						.get(
+							onDrive(
+								`drive/v3/files?${new URLSearchParams({
+									q,
+									fields: "nextPageToken,files(id,name,mimeType,modifiedTime,parents)",
+									pageSize: "1000",
+									...(pageToken ? { pageToken } : {}),
+								}).toString()}`,
+								"list"
+							)
+						)
+						.json<any>();
+					files.push(...result.files);
+					pageToken = result.nextPageToken;
+				} while (pageToken);
+			}
+			return files;
+		});
+
 	const searchHiddenFiles = async (parentId?: string) => {
-		if (!parentId) {
-			parentId = await getRootFolderId();
-			if (!parentId) return [];
-		}
+		if (!parentId) parentId = await getRootFolderId();
 		
 		console.log("[GDriveSync] Searching for hidden files/folders starting with '.'");
 		
@@ -525,9 +1125,9 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 			// Search for files and folders that start with . (hidden files)
 			// We search for files with vault property and name starting with .
 			const hiddenFiles = await drive
-				.get(`drive/v3/files?q=${encodeURIComponent(
-					`'${parentId}' in parents and trashed=false and properties has { key='vault' and value='${escapeQueryString(t.app.vault.getName())}' }`
-				)}&fields=files(id,name,mimeType,properties,modifiedTime)&pageSize=1000`)
+				.get(onDrive(`drive/v3/files?q=${encodeURIComponent(
+					`'${parentId}' in parents and trashed=false and ${vaultQuery()}`
+				)}&fields=files(id,name,mimeType,properties,modifiedTime,md5Checksum)&pageSize=1000`, "list"))
 				.json<any>();
 			
 			if (!hiddenFiles?.files) {
@@ -557,13 +1157,14 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 
 	const ensureObsidianStructure = async () => {
 		console.log("[GDriveSync] Ensuring Obsidian folder structure");
-		const rootFolderId = await getRootFolderId();
-		if (!rootFolderId) {
-			console.error("[GDriveSync] Failed to ensure Obsidian structure");
+		try {
+			const rootFolderId = await getRootFolderId();
+			console.log("[GDriveSync] Obsidian structure confirmed with vault ID:", rootFolderId);
+			return true;
+		} catch (e) {
+			console.error("[GDriveSync] Failed to ensure Obsidian structure", e);
 			return false;
 		}
-		console.log("[GDriveSync] Obsidian structure confirmed with vault ID:", rootFolderId);
-		return true;
 	};
 
 	const getConfigFilesToSync = async () => {
@@ -575,43 +1176,26 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 			adapter.list(vault.configDir),
 			adapter.list(vault.configDir + "/plugins"),
 		]);
+		const pluginFiles = await Promise.all(
+			plugins.folders.map(async (plugin) => {
+				const { files } = await adapter.list(plugin);
+				return files;
+			})
+		);
+
+		// Hidden from Obsidian like the configuration, so it is synced the same way
+		const candidates = [...configFiles.files, ...pluginFiles.flat()];
+		if (await adapter.exists(IGNORE_FILE)) candidates.push(IGNORE_FILE);
 
 		await Promise.all(
-			configFiles.files
-				.filter(
-					(path) =>
-						!BLACKLISTED_CONFIG_FILES.includes(
-							fileNameFromPath(path)
-						)
-				)
+			candidates
+				.filter((path) => t.shouldSyncFile(path))
 				.map(async (path) => {
 					const file = await adapter.stat(path);
 					if ((file?.mtime || 0) > t.settings.lastSyncedAt) {
 						configFilesToSync.push(path);
 					}
 				})
-				.concat(
-					plugins.folders.map(async (plugin) => {
-						const files = await adapter.list(plugin);
-						await Promise.all(
-							files.files
-								.filter((path) =>
-									WHITELISTED_PLUGIN_FILES.includes(
-										fileNameFromPath(path)
-									)
-								)
-								.map(async (path) => {
-									const file = await adapter.stat(path);
-									if (
-										(file?.mtime || 0) >
-										t.settings.lastSyncedAt
-									) {
-										configFilesToSync.push(path);
-									}
-								})
-						);
-					})
-				)
 		);
 
 		return configFilesToSync;
@@ -621,6 +1205,7 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 		paginateFiles,
 		searchFiles,
 		searchHiddenFiles,
+		searchNativeFiles,
 		getRootFolderId,
 		ensureObsidianStructure,
 		createFolder,
@@ -629,21 +1214,38 @@ export const getDriveClient = (t: ObsidianGoogleDrive) => {
 		updateFileMetadata,
 		deleteFile,
 		getFile,
+		exportFile,
 		getFileMetadata,
 		idFromPath,
 		idsFromPaths,
 		getChangesStartToken,
 		getChanges,
 		batchDelete,
-		checkConnection,
+		renameFile,
+		batchUpdateProperties,
+		batchTrash,
+		batchRestore,
+		getRevisions,
+		getRevision,
+		setRevisionKeepForever,
+		listSharedDrives,
+		checkConnection: () => checkConnection(t),
 		deleteFilesMinimumOperations,
 		getConfigFilesToSync,
 	};
 };
 
-export const checkConnection = async () => {
+export const checkConnection = async (t: ObsidianGoogleDrive) => {
 	try {
-		const result = await ky.get("https://ogd.richardxiong.com/api/ping");
+		if (t.settings.authMode === "custom") {
+			// Any response at all means Google is reachable
+			await requestUrl({
+				url: "https://www.googleapis.com/drive/v3/about",
+				throw: false,
+			});
+			return true;
+		}
+		const result = await ky.get(t.settings.pingEndpoint);
 		return result.ok;
 	} catch {
 		return false;
@@ -671,6 +1273,29 @@ export const getSyncMessage = (
 
 export const fileNameFromPath = (path: string) => path.split("/").slice(-1)[0];
 
+/**
+ * Hashes content the same way Google Drive does for `md5Checksum`
+ */
+export const md5 = (content: ArrayBuffer) => SparkMD5.ArrayBuffer.hash(content);
+
+export const formatBytes = (bytes: number) => {
+	const units = ["B", "KB", "MB", "GB"];
+	let unit = 0;
+	while (bytes >= 1024 && unit < units.length - 1) {
+		bytes /= 1024;
+		unit++;
+	}
+	return `${bytes.toFixed(unit ? 1 : 0)} ${units[unit]}`;
+};
+
+/**
+ * Converts the `Range` header of a resumable upload (e.g. `bytes=0-524287`) to the next byte to send
+ */
+const rangeToOffset = (range: string | null) => {
+	const end = Number(range?.split("-")[1]);
+	return isNaN(end) ? 0 : end + 1;
+};
+
 /**
  * @returns Batches in increasing order of depth
  */
@@ -0,0 +1,128 @@
+import ObsidianGoogleDrive from "main";
+import { Notice } from "obsidian";
+
+export type DriveRequestKind =
+	| "request"
+	| "list"
+	| "createFolder"
+	| "upload"
+	| "update"
+	| "rename"
+	| "download"
+	| "metadata"
+	| "delete"
+	| "restore"
+	| "revisions"
+	| "changes";
+
+/**
+ * A failed Google Drive request, carrying the vault path it affected where known
+ */
+export class DriveError extends Error {
+	/**
+	 * 0 if no response was received, e.g. when offline or timed out
+	 */
+	status: number;
+	/**
+	 * Google's error reason, e.g. `storageQuotaExceeded`
+	 */
+	reason?: string;
+	kind: DriveRequestKind;
+	path?: string;
+
+	constructor({
+		message,
+		status,
+		reason,
+		kind = "request",
+		path,
+	}: {
+		message: string;
+		status: number;
+		reason?: string;
+		kind?: DriveRequestKind;
+		path?: string;
+	}) {
+		super(message);
+		this.name = "DriveError";
+		this.status = status;
+		this.reason = reason;
+		this.kind = kind;
+		this.path = path;
+	}
+
+	static async fromResponse(response: Response) {
+		let message = response.statusText || `HTTP ${response.status}`;
+		let reason: string | undefined;
+		try {
+			const { error } = await response.clone().json();
+			message = error.message || message;
+			reason = error.errors?.[0]?.reason || error.status;
+		} catch {
+			// Not a JSON error body
+		}
+		return new DriveError({ message, status: response.status, reason });
+	}
+
+	/**
+	 * Adds the request kind and path to any error thrown while making a request
+	 */
+	static from(e: unknown, kind: DriveRequestKind, path?: string) {
+		const error =
+			e instanceof DriveError
+				? e
+				: new DriveError({
+						message: e instanceof Error ? e.message : String(e),
+						status: 0,
+				  });
+		if (error.kind === "request") error.kind = kind;
+		if (!error.path) error.path = path;
+		return error;
+	}
+}
+
+/**
+ * Runs a request, making sure any error it throws is a DriveError with context
+ */
+export const withContext = async <T>(
+	kind: DriveRequestKind,
+	path: string | undefined,
+	request: () => Promise<T>
+) => {
+	try {
+		return await request();
+	} catch (e) {
+		throw DriveError.from(e, kind, path);
+	}
+};
+
+/**
+ * Runs the sync step for a single file, recording its failure instead of aborting the whole sync
+ */
+export const catchSyncError = async <T>(
+	t: ObsidianGoogleDrive,
+	kind: DriveRequestKind,
+	path: string | undefined,
+	step: () => Promise<T>
+) => {
+	try {
+		return await step();
+	} catch (e) {
+		const error = DriveError.from(e, kind, path);
+		console.error("[GDriveSync] Failed to sync file:", error);
+		t.syncErrors.push(error);
+	}
+};
+
+export const describeError = (error: DriveError) =>
+	`${error.path ? error.path + ": " : ""}${error.message}${
+		error.reason ? ` (${error.reason})` : ""
+	}`;
+
+export const showErrorSummary = (errors: DriveError[]) =>
+	new Notice(
+		`${errors.length} file(s) could not be synced and will be retried next time:\n${errors
+			.map((error) => `- ${describeError(error)}`)
+			.join("\n")}`,
+		0
+	);
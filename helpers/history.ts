@@ -0,0 +1,169 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, moment, Notice, Setting, TFile } from "obsidian";
+import { decodeText, renderDiff } from "./diff";
+import { formatBytes, Revision } from "./drive";
+import { describeError, DriveError } from "./errors";
+
+class RevisionHistoryModal extends Modal {
+	t: ObsidianGoogleDrive;
+	file: TFile;
+	id: string;
+	revisions: Revision[];
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		file: TFile,
+		id: string,
+		revisions: Revision[]
+	) {
+		super(t.app);
+		this.t = t;
+		this.file = file;
+		this.id = id;
+		this.revisions = revisions;
+
+		this.setTitle(`Google Drive history of ${file.name}`);
+		this.renderList();
+	}
+
+	showError(action: string, e: unknown) {
+		new Notice(
+			`Could not ${action}: ${describeError(
+				DriveError.from(e, "revisions", this.file.path)
+			)}`
+		);
+	}
+
+	renderList() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		if (!this.revisions.length) {
+			contentEl
+				.createEl("p")
+				.setText("Google Drive has no revisions of this note.");
+			return;
+		}
+
+		contentEl
+			.createEl("p")
+			.setText(
+				"Google Drive deletes older revisions after 30 days or 100 revisions, unless they are pinned."
+			);
+
+		// Newest first
+		[...this.revisions].reverse().forEach((revision) => {
+			const details = [
+				revision.lastModifyingUser?.displayName,
+				revision.size && formatBytes(Number(revision.size)),
+				revision.keepForever && "Pinned",
+			].filter(Boolean);
+
+			new Setting(contentEl)
+				.setName(
+					moment(revision.modifiedTime).format("YYYY-MM-DD HH:mm")
+				)
+				.setDesc(details.join(" · "))
+				.addButton((btn) =>
+					btn
+						.setButtonText(revision.keepForever ? "Unpin" : "Pin")
+						.onClick(async () => {
+							btn.setDisabled(true);
+							try {
+								const updated =
+									await this.t.drive.setRevisionKeepForever(
+										this.id,
+										revision.id,
+										!revision.keepForever,
+										this.file.path
+									);
+								revision.keepForever = updated.keepForever;
+							} catch (e) {
+								this.showError("pin the revision", e);
+							}
+							this.renderList();
+						})
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Compare")
+						.setCta()
+						.onClick(async () => {
+							btn.setDisabled(true);
+							try {
+								await this.renderRevision(
+									revision,
+									await this.t.drive.getRevision(
+										this.id,
+										revision.id,
+										this.file.path
+									)
+								);
+							} catch (e) {
+								this.showError("download the revision", e);
+								btn.setDisabled(false);
+							}
+						})
+				);
+		});
+	}
+
+	async renderRevision(revision: Revision, content: ArrayBuffer) {
+		const { contentEl } = this;
+		const date = moment(revision.modifiedTime).format("YYYY-MM-DD HH:mm");
+		const current = decodeText(await this.app.vault.readBinary(this.file));
+		const text = decodeText(content);
+
+		contentEl.empty();
+		if (current === undefined || text === undefined) {
+			contentEl
+				.createEl("p")
+				.setText("This file is binary, so no diff can be shown.");
+		} else {
+			renderDiff(contentEl, current, text, "Current", date);
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Back").onClick(() => this.renderList())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Restore this revision")
+					.setCta()
+					.onClick(async () => {
+						await this.t.modifyFile(this.file, content);
+						// Pushed like any other edit, which makes the restored content the newest revision
+						if (!this.t.settings.operations[this.file.path]) {
+							this.t.settings.operations[this.file.path] =
+								"modify";
+						}
+						await this.t.saveSettings();
+						new Notice(`Restored ${this.file.name} to ${date}.`);
+						this.close();
+					})
+			);
+	}
+}
+
+export const showHistory = async (t: ObsidianGoogleDrive, file: TFile) => {
+	const id = Object.keys(t.settings.driveIdToPath).find(
+		(id) => t.settings.driveIdToPath[id] === file.path
+	);
+	if (!id) {
+		return new Notice(
+			"This note has not been synced to Google Drive yet, so it has no history."
+		);
+	}
+
+	try {
+		const revisions = await t.drive.getRevisions(id, file.path);
+		new RevisionHistoryModal(t, file, id, revisions).open();
+	} catch (e) {
+		new Notice(
+			`Could not load the history: ${describeError(
+				DriveError.from(e, "revisions", file.path)
+			)}`
+		);
+	}
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { isIgnored, parseIgnoreRules } from "./ignore";
+
+const check = (rules: string, path: string, isFolder = false) =>
+	isIgnored(parseIgnoreRules(rules), path, isFolder);
+
+describe("isIgnored", () => {
+	it("matches a name at any depth", () => {
+		expect(check("*.log", "debug.log")).toBe(true);
+		expect(check("*.log", "a/b/debug.log")).toBe(true);
+		expect(check("*.log", "debug.md")).toBe(false);
+	});
+
+	it("anchors patterns containing a slash to the vault root", () => {
+		expect(check("Archive/*.md", "Archive/old.md")).toBe(true);
+		expect(check("Archive/*.md", "Notes/Archive/old.md")).toBe(false);
+		expect(check("/todo.md", "todo.md")).toBe(true);
+		expect(check("/todo.md", "Notes/todo.md")).toBe(false);
+	});
+
+	it("keeps `*` and `?` within a single folder", () => {
+		expect(check("Archive/*", "Archive/2020/old.md")).toBe(true);
+		expect(check("a?c", "abc")).toBe(true);
+		expect(check("a?c", "a/c")).toBe(false);
+	});
+
+	it("matches any number of folders with `**`", () => {
+		expect(check("**/drafts/*.md", "drafts/a.md")).toBe(true);
+		expect(check("**/drafts/*.md", "x/y/drafts/a.md")).toBe(true);
+		expect(check("Archive/**", "Archive/a/b/c.md")).toBe(true);
+	});
+
+	it("re-includes paths with `!`, the last matching rule winning", () => {
+		const rules = "Archive/*\n!Archive/index.md";
+		expect(check(rules, "Archive/old.md")).toBe(true);
+		expect(check(rules, "Archive/index.md")).toBe(false);
+		expect(check(`${rules}\nArchive/index.md`, "Archive/index.md")).toBe(
+			true
+		);
+	});
+
+	it("keeps everything inside an ignored folder ignored", () => {
+		const rules = "build/\n!build/keep.md";
+		expect(check(rules, "build", true)).toBe(true);
+		expect(check(rules, "build/keep.md")).toBe(true);
+	});
+
+	it("only matches folders with a trailing slash", () => {
+		expect(check("cache/", "cache", true)).toBe(true);
+		expect(check("cache/", "cache")).toBe(false);
+		expect(check("cache/", "cache/file.md")).toBe(true);
+	});
+
+	it("supports character sets", () => {
+		expect(check("draft[0-9].md", "draft1.md")).toBe(true);
+		expect(check("draft[!0-9].md", "draft1.md")).toBe(false);
+		expect(check("draft[!0-9].md", "draftA.md")).toBe(true);
+	});
+
+	it("skips comments and blank lines, and allows escaping them", () => {
+		expect(parseIgnoreRules("# comment\n\n   \n")).toEqual([]);
+		expect(check("\\#note.md", "#note.md")).toBe(true);
+		expect(check("\\!important.md", "!important.md")).toBe(true);
+	});
+
+	it("escapes characters that are special in regular expressions", () => {
+		expect(check("a+b (1).md", "a+b (1).md")).toBe(true);
+		expect(check("a.md", "aXmd")).toBe(false);
+	});
+});
@@ -0,0 +1,149 @@
+import ObsidianGoogleDrive from "main";
+
+/**
+ * Rules in gitignore syntax, kept at the vault root and synced like any other file
+ */
+export const IGNORE_FILE = ".gdriveignore";
+
+export interface IgnoreRule {
+	regex: RegExp;
+	negate: boolean;
+	directoryOnly: boolean;
+}
+
+/**
+ * Applied before the vault's own rules, which can re-include anything here with `!`
+ */
+const getDefaultRules = (configDir: string) => [
+	".DS_Store",
+	".git/",
+	"node_modules/",
+	// Differ between devices
+	`/${configDir}/workspace.json`,
+	`/${configDir}/workspace-mobile.json`,
+	`/${configDir}/graph.json`,
+	// Plugins only need their code, styles and settings
+	`/${configDir}/plugins/*/*`,
+	`!/${configDir}/plugins/*/manifest.json`,
+	`!/${configDir}/plugins/*/styles.css`,
+	`!/${configDir}/plugins/*/main.js`,
+	`!/${configDir}/plugins/*/data.json`,
+];
+
+const globToRegex = (glob: string) => {
+	let regex = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "\\" && i + 1 < glob.length) {
+			regex += "\\" + glob[++i];
+		} else if (char === "*" && glob[i + 1] === "*") {
+			// `**/` also matches no folders at all, and a trailing `**` everything inside
+			if (glob[i + 2] === "/") {
+				regex += "(?:.*/)?";
+				i += 2;
+			} else {
+				regex += ".*";
+				i++;
+			}
+		} else if (char === "*") {
+			regex += "[^/]*";
+		} else if (char === "?") {
+			regex += "[^/]";
+		} else if (char === "[") {
+			const end = glob.indexOf("]", i + 2);
+			if (end === -1) {
+				regex += "\\[";
+				continue;
+			}
+			const set = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+			regex += `[${set[0] === "!" ? "^" + set.slice(1) : set}]`;
+			i = end;
+		} else {
+			regex += char.replace(/[.+^${}()|]/g, "\\$&");
+		}
+	}
+	return regex;
+};
+
+const parseRule = (line: string): IgnoreRule | undefined => {
+	let pattern = line;
+	// Trailing spaces are dropped unless escaped
+	while (/[ \t]$/.test(pattern) && !pattern.endsWith("\\ ")) {
+		pattern = pattern.slice(0, -1);
+	}
+	if (!pattern || pattern.startsWith("#")) return;
+
+	const negate = pattern.startsWith("!");
+	if (negate) pattern = pattern.slice(1);
+	// Escaped so that a file name can start with `#` or `!`
+	if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+		pattern = pattern.slice(1);
+	}
+
+	const directoryOnly = pattern.endsWith("/");
+	if (directoryOnly) pattern = pattern.slice(0, -1);
+	if (!pattern) return;
+
+	// A pattern with a slash before its end is relative to the vault root, otherwise it matches at any depth
+	const anchored = pattern.includes("/");
+	if (pattern.startsWith("/")) pattern = pattern.slice(1);
+
+	return {
+		regex: new RegExp(
+			`^${anchored ? "" : "(?:.*/)?"}${globToRegex(pattern)}$`
+		),
+		negate,
+		directoryOnly,
+	};
+};
+
+export const parseIgnoreRules = (text: string) =>
+	text
+		.split(/\r?\n/)
+		.map(parseRule)
+		.filter((rule): rule is IgnoreRule => !!rule);
+
+/**
+ * @returns Whether the last rule matching a path ignores it, without looking at the folders it is in
+ */
+const matches = (rules: IgnoreRule[], path: string, isFolder: boolean) => {
+	let ignored = false;
+	rules.forEach(({ regex, negate, directoryOnly }) => {
+		if (directoryOnly && !isFolder) return;
+		if (regex.test(path)) ignored = !negate;
+	});
+	return ignored;
+};
+
+/**
+ * Like git, a path inside an ignored folder stays ignored whatever rules match the path itself
+ *
+ * @param isFolder Needed for rules ending with `/` to match the path itself, rather than only what is inside it
+ */
+export const isIgnored = (
+	rules: IgnoreRule[],
+	path: string,
+	isFolder = false
+) => {
+	const parts = path.split("/");
+	for (let i = 1; i < parts.length; i++) {
+		if (matches(rules, parts.slice(0, i).join("/"), true)) return true;
+	}
+	return matches(rules, path, isFolder);
+};
+
+/**
+ * Reads the vault's ignore file again, e.g. after pulling a new version of it
+ */
+export const loadIgnoreRules = async (t: ObsidianGoogleDrive) => {
+	const { vault } = t.app;
+	const rules = getDefaultRules(vault.configDir);
+	try {
+		if (await vault.adapter.exists(IGNORE_FILE)) {
+			rules.push(...(await vault.adapter.read(IGNORE_FILE)).split("\n"));
+		}
+	} catch (e) {
+		console.error(`[GDriveSync] Could not read ${IGNORE_FILE}`, e);
+	}
+	t.ignoreRules = parseIgnoreRules(rules.join("\n"));
+};
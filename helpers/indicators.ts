@@ -0,0 +1,99 @@
+import ObsidianGoogleDrive from "main";
+import { isConflictCopy } from "./conflicts";
+
+/**
+ * What a file explorer badge marks, from least to most important
+ */
+const SYNC_STATES = [
+	"pending",
+	"create",
+	"modify",
+	"rename",
+	"delete",
+	"conflict",
+	"error",
+] as const;
+
+type SyncState = (typeof SYNC_STATES)[number];
+
+/**
+ * @returns How long ago a time was, e.g. `5m`
+ */
+const formatAge = (time: number) => {
+	const minutes = Math.floor((Date.now() - time) / 60_000);
+	if (minutes < 60) return `${minutes}m`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h`;
+	return `${Math.floor(hours / 24)}d`;
+};
+
+export const renderStatusBar = (t: ObsidianGoogleDrive) => {
+	if (!t.statusBarItem) return;
+	const { operations, lastSyncedAt } = t.settings;
+
+	const parts = [`${Object.keys(operations).length} pending`];
+	if (t.syncing) parts.push("syncing");
+	else if (!lastSyncedAt) parts.push("never synced");
+	else if (Date.now() - lastSyncedAt < 60_000) parts.push("synced just now");
+	else parts.push(`synced ${formatAge(lastSyncedAt)} ago`);
+	if (!navigator.onLine) parts.push("offline");
+	if (!t.syncing && t.syncErrors.length) {
+		parts.push(`${t.syncErrors.length} failed`);
+	}
+
+	t.statusBarItem.setText(parts.join(" · "));
+};
+
+const getSyncStates = (t: ObsidianGoogleDrive) => {
+	const states: Record<string, SyncState> = {};
+	const mark = (path: string, state: SyncState) => {
+		if (
+			!states[path] ||
+			SYNC_STATES.indexOf(states[path]) < SYNC_STATES.indexOf(state)
+		) {
+			states[path] = state;
+		}
+	};
+
+	Object.entries(t.settings.operations).forEach(([path, op]) =>
+		mark(path, op)
+	);
+	// Conflict copies stay marked until they are dealt with, long after they were pushed
+	t.app.vault
+		.getFiles()
+		.forEach(({ path }) => isConflictCopy(path) && mark(path, "conflict"));
+	t.syncErrors.forEach(({ path }) => path && mark(path, "error"));
+
+	// Folders show that something inside them changed, which is the only trace of deleted files
+	Object.keys(states).forEach((path) => {
+		const parts = path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			mark(parts.slice(0, i).join("/"), "pending");
+		}
+	});
+	return states;
+};
+
+/**
+ * Marks files and folders in the file explorer with their pending operations, conflicts and failures
+ */
+export const decorateFileExplorer = (t: ObsidianGoogleDrive) => {
+	const states = getSyncStates(t);
+
+	t.app.workspace.getLeavesOfType("file-explorer").forEach(({ view }) => {
+		// Not part of the public API, so a missing explorer is simply left alone
+		const fileItems = (view as any).fileItems as
+			| Record<string, { selfEl?: HTMLElement }>
+			| undefined;
+		if (!fileItems) return;
+
+		Object.entries(fileItems).forEach(([path, { selfEl }]) => {
+			if (!selfEl) return;
+			if (states[path]) {
+				selfEl.setAttribute("data-sync-state", states[path]);
+			} else {
+				selfEl.removeAttribute("data-sync-state");
+			}
+		});
+	});
+};
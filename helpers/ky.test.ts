@@ -0,0 +1,97 @@
+import ObsidianGoogleDrive from "main";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DriveError } from "./errors";
+import { getDriveKy, getRetryAfter, getRetryDelay } from "./ky";
+
+const withRetryAfter = (value: string) =>
+	new Response(null, { status: 429, headers: { "Retry-After": value } });
+
+describe("getRetryDelay", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("doubles the delay on every retry, with jitter", () => {
+		vi.spyOn(Math, "random").mockReturnValue(0);
+		expect(getRetryDelay(0)).toBe(500);
+		expect(getRetryDelay(1)).toBe(1000);
+		expect(getRetryDelay(2)).toBe(2000);
+
+		vi.spyOn(Math, "random").mockReturnValue(1);
+		expect(getRetryDelay(0)).toBe(1000);
+		expect(getRetryDelay(2)).toBe(4000);
+	});
+
+	it("stops growing at the maximum delay", () => {
+		vi.spyOn(Math, "random").mockReturnValue(1);
+		expect(getRetryDelay(5)).toBe(32_000);
+		expect(getRetryDelay(20)).toBe(32_000);
+	});
+});
+
+describe("getRetryAfter", () => {
+	it("reads a delay in seconds", () => {
+		expect(getRetryAfter(withRetryAfter("3"))).toBe(3000);
+	});
+
+	it("reads a date", () => {
+		const date = new Date(Date.now() + 10_000).toUTCString();
+		const delay = getRetryAfter(withRetryAfter(date));
+		expect(delay).toBeGreaterThan(8000);
+		expect(delay).toBeLessThanOrEqual(10_000);
+	});
+
+	it("never waits for a date in the past", () => {
+		expect(
+			getRetryAfter(withRetryAfter(new Date(0).toUTCString()))
+		).toBe(0);
+	});
+
+	it("caps long delays", () => {
+		expect(getRetryAfter(withRetryAfter("86400"))).toBe(60_000);
+	});
+
+	it("ignores a missing or invalid header", () => {
+		expect(getRetryAfter(new Response(null, { status: 429 }))).toBe(
+			undefined
+		);
+		expect(getRetryAfter(withRetryAfter("soon"))).toBe(undefined);
+	});
+});
+
+describe("getDriveKy", () => {
+	const t = {
+		settings: { maxRetries: 1, refreshToken: "" },
+		accessToken: { token: "", expiresAt: 0 },
+	} as unknown as ObsidianGoogleDrive;
+
+	const respondWith = (status: number) => {
+		const fetch = vi.fn(
+			async () =>
+				new Response(null, { status, headers: { "Retry-After": "0" } })
+		);
+		vi.stubGlobal("fetch", fetch);
+		vi.stubGlobal("window", { setTimeout });
+		return fetch;
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("retries failed requests only as often as configured", async () => {
+		const fetch = respondWith(503);
+		await expect(getDriveKy(t).get("drive/v3/files")).rejects.toThrow(
+			DriveError
+		);
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it("does not retry requests that cannot succeed", async () => {
+		const fetch = respondWith(404);
+		await expect(getDriveKy(t).get("drive/v3/files")).rejects.toThrow(
+			DriveError
+		);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+});
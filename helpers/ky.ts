@@ -1,15 +1,95 @@
-import ky, { Hooks } from "ky";
+import ky, { HTTPError, Hooks, Options } from "ky";
 import ObsidianGoogleDrive from "main";
 import { Notice } from "obsidian";
 import { checkConnection } from "./drive";
+import { DriveError } from "./errors";
+import { OAuthError, refreshWithGoogle } from "./oauth";
 
-const getHooks = (t: ObsidianGoogleDrive): Hooks => ({
+/**
+ * Custom options that are passed through ky to the hooks
+ */
+interface DriveRequestOptions extends Options {
+	/**
+	 * Whether this request is already a replay after refreshing the access token
+	 */
+	authRetried?: boolean;
+	/**
+	 * How many times this request has been retried after a rate limit or server error
+	 */
+	retryCount?: number;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const RATE_LIMIT_REASONS = ["userRateLimitExceeded", "rateLimitExceeded"];
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 32_000;
+/**
+ * The longest a `Retry-After` header can hold up a sync for
+ */
+const MAX_RETRY_AFTER = 60_000;
+
+export const sleep = (ms: number) =>
+	new Promise((resolve) => window.setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with jitter, so that parallel requests don't retry in lockstep
+ */
+export const getRetryDelay = (retryCount: number) => {
+	const backoff = Math.min(
+		MAX_RETRY_DELAY,
+		BASE_RETRY_DELAY * 2 ** retryCount
+	);
+	return backoff / 2 + (Math.random() * backoff) / 2;
+};
+
+/**
+ * @returns The delay requested by the `Retry-After` header, if any, up to a minute
+ */
+export const getRetryAfter = (response: Response) => {
+	const retryAfter = response.headers.get("Retry-After");
+	if (!retryAfter) return;
+	const seconds = Number(retryAfter);
+	const delay = !isNaN(seconds)
+		? seconds * 1000
+		: Date.parse(retryAfter) - Date.now();
+	if (isNaN(delay)) return;
+	return Math.min(MAX_RETRY_AFTER, Math.max(0, delay));
+};
+
+export const isRetryable = async (response: Response) => {
+	if (RETRYABLE_STATUSES.includes(response.status)) return true;
+	if (response.status !== 403) return false;
+	try {
+		const { error } = await response.clone().json();
+		return error.errors.some(({ reason }: { reason: string }) =>
+			RATE_LIMIT_REASONS.includes(reason)
+		);
+	} catch {
+		return false;
+	}
+};
+
+type Replay = (
+	request: Request,
+	options: DriveRequestOptions
+) => Promise<Response>;
+
+/**
+ * The caller's options (e.g. `throwHttpErrors`) to send a request again with, leaving out the hooks the instance adds to it anyway
+ */
+const getReplayOptions = (options: Options): DriveRequestOptions => {
+	const { hooks, ...replayOptions } = options;
+	return replayOptions;
+};
+
+const getHooks = (t: ObsidianGoogleDrive, replay: Replay): Hooks => ({
 	beforeRequest: [
 		async (request) => {
+			if (!t.settings.refreshToken) return request;
+			if (t.accessToken.expiresAt - Date.now() < 60000) {
+				await refreshAccessToken(t);
+			}
 			if (t.accessToken.token) {
-				if (t.accessToken.expiresAt - Date.now() < 60000) {
-					await refreshAccessToken(t);
-				}
 				request.headers.set(
 					"Authorization",
 					`Bearer ${t.accessToken.token}`
@@ -20,49 +100,105 @@ const getHooks = (t: ObsidianGoogleDrive): Hooks => ({
 	],
 	afterResponse: [
 		async (request, options, response) => {
-			if (!response.ok) {
-				new Notice(`Error: ${await response.text()}`);
-				return new Response();
+			if (
+				response.status === 401 &&
+				!(options as DriveRequestOptions).authRetried &&
+				t.settings.refreshToken
+			) {
+				// Only refresh if no other request has already done so since this one was sent
+				if (
+					request.headers.get("Authorization") ===
+					`Bearer ${t.accessToken.token}`
+				) {
+					await refreshAccessToken(t);
+				}
+				if (t.accessToken.token) {
+					return replay(request, {
+						...getReplayOptions(options),
+						authRetried: true,
+					});
+				}
 			}
-			return response;
+
+			// Requests that opt out of HTTP errors (e.g. resumable upload chunks) handle statuses themselves
+			if (
+				response.ok ||
+				(options as Options).throwHttpErrors === false
+			) {
+				return response;
+			}
+
+			const { retryCount = 0 } = options as DriveRequestOptions;
+			if (
+				retryCount < t.settings.maxRetries &&
+				(await isRetryable(response))
+			) {
+				await sleep(
+					getRetryAfter(response) ?? getRetryDelay(retryCount)
+				);
+				return replay(request, {
+					...getReplayOptions(options),
+					retryCount: retryCount + 1,
+				});
+			}
+
+			throw await DriveError.fromResponse(response);
 		},
 	],
 });
 
 export const getDriveKy = (t: ObsidianGoogleDrive) => {
-	return ky.extend({
+	const drive = ky.extend({
 		prefixUrl: "https://www.googleapis.com",
-		hooks: getHooks(t),
+		hooks: getHooks(t, (request, options) => drive(request, options)),
+		// Retries are made by the hooks, which ky would otherwise retry again on top
+		retry: 0,
 		timeout: 120_000,
 	});
+	return drive;
 };
 
-export const refreshAccessToken = async (t: ObsidianGoogleDrive) => {
+const isInvalidGrant = async (e: unknown) => {
+	if (e instanceof OAuthError) return e.code === "invalid_grant";
+	if (e instanceof HTTPError) {
+		return (await e.response.clone().text()).includes("invalid_grant");
+	}
+	return false;
+};
+
+const requestAccessToken = async (t: ObsidianGoogleDrive) => {
 	try {
-		const { expires_in, access_token } = await ky
-			.post("https://ogd.richardxiong.com/api/access", {
-				json: { refresh_token: t.settings.refreshToken },
-			})
-			.json<any>();
+		const { expires_in, access_token } =
+			t.settings.authMode === "custom"
+				? await refreshWithGoogle(t)
+				: await ky
+						.post(t.settings.tokenEndpoint, {
+							json: { refresh_token: t.settings.refreshToken },
+						})
+						.json<any>();
 
 		t.accessToken = {
 			token: access_token,
 			expiresAt: Date.now() + expires_in * 1000,
 		};
 		return t.accessToken;
-	} catch (e: any) {
-		if (!(await checkConnection())) {
-			return new Notice(
-				"Something is wrong with your internet connection, so we could not fetch a new access token! Once you're back online, please restart Obsidian.",
-				0
-			);
-		}
-		t.settings.refreshToken = "";
+	} catch (e: unknown) {
 		t.accessToken = {
 			token: "",
 			expiresAt: 0,
 		};
 
+		// Anything but a rejected refresh token (e.g. being offline or a server hiccup) may succeed later
+		if (!(await isInvalidGrant(e))) {
+			new Notice(
+				(await checkConnection(t))
+					? "We could not fetch a new access token right now. Please try syncing again later."
+					: "Something is wrong with your internet connection, so we could not fetch a new access token! Please try syncing again once you're back online."
+			);
+			return;
+		}
+
+		t.settings.refreshToken = "";
 		new Notice(
 			"Something is wrong with your refresh token, please restart Obsidian and then reset it.",
 			0
@@ -71,3 +207,21 @@ export const refreshAccessToken = async (t: ObsidianGoogleDrive) => {
 		return;
 	}
 };
+
+let pendingRefresh: ReturnType<typeof requestAccessToken> | undefined;
+
+/**
+ * Refreshes the access token, sharing a single request between all concurrent callers
+ */
+export const refreshAccessToken = (t: ObsidianGoogleDrive) => {
+	if (!pendingRefresh) {
+		pendingRefresh = (async () => {
+			try {
+				return await requestAccessToken(t);
+			} finally {
+				pendingRefresh = undefined;
+			}
+		})();
+	}
+	return pendingRefresh;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { isMergeable, merge3 } from "./merge";
+
+describe("merge3", () => {
+	const base = "one\ntwo\nthree\nfour";
+
+	it("keeps changes made to different lines on each side", () => {
+		expect(
+			merge3(base, "ONE\ntwo\nthree\nfour", "one\ntwo\nthree\nFOUR")
+		).toBe("ONE\ntwo\nthree\nFOUR");
+	});
+
+	it("takes the only side that changed", () => {
+		expect(merge3(base, base, "one\nTWO\nthree\nfour")).toBe(
+			"one\nTWO\nthree\nfour"
+		);
+		expect(merge3(base, "one\nTWO\nthree\nfour", base)).toBe(
+			"one\nTWO\nthree\nfour"
+		);
+	});
+
+	it("accepts the same change made on both sides", () => {
+		const changed = "one\nTWO\nthree\nfour";
+		expect(merge3(base, changed, changed)).toBe(changed);
+	});
+
+	it("keeps both insertions at the same place, local first", () => {
+		expect(merge3(base, `${base}\nlocal`, `${base}\nremote`)).toBe(
+			`${base}\nlocal\nremote`
+		);
+	});
+
+	it("fails when both sides changed the same lines differently", () => {
+		expect(
+			merge3(base, "one\nlocal\nthree\nfour", "one\nremote\nthree\nfour")
+		).toBeUndefined();
+	});
+
+	it("fails when one side edits a line the other deleted", () => {
+		expect(
+			merge3(base, "one\nTWO\nthree\nfour", "one\nthree\nfour")
+		).toBeUndefined();
+	});
+
+	it("keeps Windows line endings of the local note", () => {
+		expect(
+			merge3(
+				"a\r\nb\r\nc",
+				"A\r\nb\r\nc",
+				"a\r\nb\r\nC"
+			)
+		).toBe("A\r\nb\r\nC");
+	});
+});
+
+describe("isMergeable", () => {
+	it("only merges notes", () => {
+		expect(isMergeable("Folder/Note.md")).toBe(true);
+		expect(isMergeable("image.png")).toBe(false);
+	});
+});
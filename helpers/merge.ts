@@ -0,0 +1,160 @@
+import ObsidianGoogleDrive from "main";
+import { diffLines, splitLines } from "./diff";
+
+interface Hunk {
+	side: "local" | "remote";
+	/**
+	 * Range of replaced base lines, exclusive of `end`
+	 */
+	start: number;
+	end: number;
+	lines: string[];
+}
+
+export const isMergeable = (path: string) => path.endsWith(".md");
+
+const basePath = (t: ObsidianGoogleDrive, path: string) =>
+	`${t.manifest.dir}/base/${path}`;
+
+/**
+ * Reads the content a note had the last time it was synced
+ */
+export const readBase = async (t: ObsidianGoogleDrive, path: string) => {
+	const { adapter } = t.app.vault;
+	if (!(await adapter.exists(basePath(t, path)))) return;
+	return adapter.read(basePath(t, path));
+};
+
+/**
+ * Caches the content a note has on Google Drive after a sync, for later three-way merges
+ */
+export const writeBase = async (
+	t: ObsidianGoogleDrive,
+	path: string,
+	content: ArrayBuffer
+) => {
+	if (!isMergeable(path)) return;
+	const { adapter } = t.app.vault;
+	const folder = basePath(t, path).split("/").slice(0, -1).join("/");
+	if (!(await adapter.exists(folder))) await adapter.mkdir(folder);
+	await adapter.writeBinary(basePath(t, path), content);
+};
+
+export const removeBase = async (t: ObsidianGoogleDrive, path: string) => {
+	const { adapter } = t.app.vault;
+	if (!(await adapter.exists(basePath(t, path)))) return;
+	await adapter.remove(basePath(t, path));
+};
+
+export const renameBase = async (
+	t: ObsidianGoogleDrive,
+	oldPath: string,
+	newPath: string
+) => {
+	if (!isMergeable(oldPath)) return;
+	if (!isMergeable(newPath)) return removeBase(t, oldPath);
+	const { adapter } = t.app.vault;
+	if (!(await adapter.exists(basePath(t, oldPath)))) return;
+	const folder = basePath(t, newPath).split("/").slice(0, -1).join("/");
+	if (!(await adapter.exists(folder))) await adapter.mkdir(folder);
+	await adapter.rename(basePath(t, oldPath), basePath(t, newPath));
+};
+
+const getHunks = (base: string[], other: string[], side: Hunk["side"]) => {
+	const hunks: Hunk[] = [];
+	let index = 0;
+	let current: Hunk | undefined;
+
+	diffLines(base, other).forEach(({ type, line }) => {
+		if (type === "equal") {
+			if (current) hunks.push(current);
+			current = undefined;
+			index++;
+			return;
+		}
+		if (!current) current = { side, start: index, end: index, lines: [] };
+		if (type === "delete") {
+			current.end++;
+			index++;
+		} else {
+			current.lines.push(line);
+		}
+	});
+	if (current) hunks.push(current);
+
+	return hunks;
+};
+
+/**
+ * Applies one side's hunks to the base lines between `start` and `end`
+ */
+const applyHunks = (
+	base: string[],
+	hunks: Hunk[],
+	start: number,
+	end: number
+) => {
+	const lines: string[] = [];
+	let index = start;
+	hunks.forEach((hunk) => {
+		lines.push(...base.slice(index, hunk.start), ...hunk.lines);
+		index = hunk.end;
+	});
+	lines.push(...base.slice(index, end));
+	return lines;
+};
+
+/**
+ * Line-based three-way merge. Insertions made by both sides at the same place (e.g. two devices appending to the same note) are both kept, local first.
+ * @returns The merged text, or undefined if both sides changed the same lines
+ */
+export const merge3 = (base: string, local: string, remote: string) => {
+	const baseLines = splitLines(base);
+	const hunks = [
+		...getHunks(baseLines, splitLines(local), "local"),
+		...getHunks(baseLines, splitLines(remote), "remote"),
+	].sort((a, b) => a.start - b.start || a.end - b.end);
+
+	const merged: string[] = [];
+	let index = 0;
+
+	for (let i = 0; i < hunks.length; ) {
+		const group = [hunks[i]];
+		const start = hunks[i].start;
+		let end = hunks[i].end;
+		for (i++; i < hunks.length; i++) {
+			const hunk = hunks[i];
+			const sameInsertionPoint =
+				hunk.start === end &&
+				hunk.start === hunk.end &&
+				group.some((other) => other.start === other.end);
+			if (hunk.start >= end && !sameInsertionPoint) break;
+			group.push(hunk);
+			end = Math.max(end, hunk.end);
+		}
+
+		merged.push(...baseLines.slice(index, start));
+		index = end;
+
+		const localHunks = group.filter(({ side }) => side === "local");
+		const remoteHunks = group.filter(({ side }) => side === "remote");
+		const localLines = applyHunks(baseLines, localHunks, start, end);
+		const remoteLines = applyHunks(baseLines, remoteHunks, start, end);
+
+		if (!remoteHunks.length) {
+			merged.push(...localLines);
+		} else if (
+			!localHunks.length ||
+			localLines.join("\n") === remoteLines.join("\n")
+		) {
+			merged.push(...remoteLines);
+		} else if (start === end) {
+			merged.push(...localLines, ...remoteLines);
+		} else {
+			return;
+		}
+	}
+
+	merged.push(...baseLines.slice(index));
+	return merged.join(local.includes("\r\n") ? "\r\n" : "\n");
+};
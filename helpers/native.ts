@@ -0,0 +1,150 @@
+import ObsidianGoogleDrive from "main";
+import { logDownload } from "./activity";
+import { batchAsyncs, FileMetadata } from "./drive";
+import { catchSyncError } from "./errors";
+
+export type NativeType = "document" | "spreadsheet" | "presentation";
+
+/**
+ * The formats each kind of Google-native file can be exported to, keyed by file extension
+ */
+export const NATIVE_TYPES: Record<
+	NativeType,
+	{ name: string; mimeType: string; formats: Record<string, string> }
+> = {
+	document: {
+		name: "Google Docs",
+		mimeType: "application/vnd.google-apps.document",
+		formats: {
+			md: "text/markdown",
+			docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		},
+	},
+	spreadsheet: {
+		name: "Google Sheets",
+		mimeType: "application/vnd.google-apps.spreadsheet",
+		formats: {
+			csv: "text/csv",
+			xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+		},
+	},
+	presentation: {
+		name: "Google Slides",
+		mimeType: "application/vnd.google-apps.presentation",
+		formats: {
+			pdf: "application/pdf",
+			pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+		},
+	},
+};
+
+const getNativeType = (mimeType: string) =>
+	(Object.keys(NATIVE_TYPES) as NativeType[]).find(
+		(type) => NATIVE_TYPES[type].mimeType === mimeType
+	);
+
+/**
+ * Finds the Google Docs, Sheets and Slides changed in the vault folder or one of its synced folders since the last sync
+ */
+export const findNativeFiles = async (t: ObsidianGoogleDrive) => {
+	const { vault } = t.app;
+	const folderIds = Object.entries(t.settings.driveIdToPath)
+		.filter(([, path]) => vault.getFolderByPath(path))
+		.map(([id]) => id);
+	return t.drive.searchNativeFiles(
+		Object.values(NATIVE_TYPES).map(({ mimeType }) => mimeType),
+		new Date(t.settings.lastSyncedAt).toISOString(),
+		[await t.drive.getRootFolderId(), ...folderIds]
+	);
+};
+
+/**
+ * @returns Where the export of a Google-native file goes, if it is inside the vault folder or one of its synced folders
+ */
+const getExportPath = (
+	t: ObsidianGoogleDrive,
+	file: FileMetadata,
+	type: NativeType,
+	rootId: string
+) => {
+	const { driveIdToPath, nativeFormats } = t.settings;
+	const parent = file.parents?.find(
+		(id) => id === rootId || driveIdToPath[id]
+	);
+	if (!parent) return;
+
+	const folder = parent === rootId ? "" : driveIdToPath[parent];
+	const extension = nativeFormats[type];
+	// Google file names may contain characters that are not allowed in vault paths
+	let name = file.name.replace(/[\\/:]/g, "-");
+	if (!name.endsWith(`.${extension}`)) name += `.${extension}`;
+	return folder ? `${folder}/${name}` : name;
+};
+
+/**
+ * @returns The Google-native files inside the vault, along with where each is exported to
+ */
+export const resolveNativeFiles = async (
+	t: ObsidianGoogleDrive,
+	files: FileMetadata[]
+) => {
+	if (!files.length) return [];
+	const rootId = await t.drive.getRootFolderId();
+	return files.flatMap((file) => {
+		const type = getNativeType(file.mimeType);
+		const path = type && getExportPath(t, file, type, rootId);
+		return type && path ? [{ file, type, path }] : [];
+	});
+};
+
+/**
+ * Downloads exports of Google-native files, which are kept read-only so that pushing never overwrites the originals
+ */
+export const exportNativeFiles = async (
+	t: ObsidianGoogleDrive,
+	files: FileMetadata[]
+) => {
+	if (!files.length) return;
+	const { vault } = t.app;
+	const { nativeExports, driveIdToPath } = t.settings;
+
+	// Resolved after the other files are pulled, since a new folder may hold new Google files
+	const nativeFiles = await resolveNativeFiles(t, files);
+
+	await batchAsyncs(
+		nativeFiles.map(({ file, type, path }) => () =>
+			catchSyncError(t, "download", path, async () => {
+				if (
+					nativeExports[path] !== file.id &&
+					(await vault.adapter.exists(path))
+				) {
+					throw new Error(
+						`${path} already exists, so ${file.name} could not be exported there.`
+					);
+				}
+
+				const formats = NATIVE_TYPES[type].formats;
+				const content = await t.drive.exportFile(
+					file.id,
+					formats[t.settings.nativeFormats[type]],
+					path
+				);
+
+				// Renamed on Google Drive or exported to another format since
+				const oldPath = Object.keys(nativeExports).find(
+					(oldPath) =>
+						nativeExports[oldPath] === file.id && oldPath !== path
+				);
+				const oldFile = oldPath && vault.getAbstractFileByPath(oldPath);
+				if (oldFile) await t.deleteFile(oldFile);
+				if (oldPath) delete nativeExports[oldPath];
+
+				// Marked before writing, so that the vault events don't queue it for pushing
+				nativeExports[path] = file.id;
+				driveIdToPath[file.id] = path;
+				await t.upsertFile(path, content, file.modifiedTime);
+				logDownload(t, path, content.byteLength);
+			})
+		)
+	);
+};
@@ -0,0 +1,211 @@
+import ObsidianGoogleDrive from "main";
+import { ObsidianProtocolData, Platform, requestUrl } from "obsidian";
+import type { AddressInfo } from "net";
+
+const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const DRIVE_SCOPE = "https://www.googleapis.com/auth/drive";
+const SIGN_IN_TIMEOUT = 5 * 60 * 1000;
+
+export const PROTOCOL_ACTION = "google-drive-sync-auth";
+
+/**
+ * An error response from Google's token endpoint, e.g. `invalid_grant` for a revoked refresh token
+ */
+export class OAuthError extends Error {
+	code: string;
+
+	constructor(code: string, description?: string) {
+		super(description || code);
+		this.name = "OAuthError";
+		this.code = code;
+	}
+}
+
+let pendingRedirect: ((params: URLSearchParams) => void) | undefined;
+
+const base64Url = (bytes: Uint8Array) =>
+	btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+
+const randomString = () =>
+	base64Url(window.crypto.getRandomValues(new Uint8Array(32)));
+
+const createPkcePair = async () => {
+	const verifier = randomString();
+	const challenge = base64Url(
+		new Uint8Array(
+			await window.crypto.subtle.digest(
+				"SHA-256",
+				new TextEncoder().encode(verifier)
+			)
+		)
+	);
+	return { verifier, challenge };
+};
+
+/**
+ * Receives the authorization redirect on a temporary local server (desktop only)
+ */
+const listenOnLoopback = async () => {
+	// eslint-disable-next-line @typescript-eslint/no-var-requires
+	const http: typeof import("http") = require("http");
+	const server = http.createServer();
+	await new Promise<void>((resolve) =>
+		server.listen(0, "127.0.0.1", resolve)
+	);
+	const redirectUri = `http://127.0.0.1:${
+		(server.address() as AddressInfo).port
+	}`;
+
+	const params = new Promise<URLSearchParams>((resolve, reject) => {
+		const timeout = window.setTimeout(() => {
+			server.close();
+			reject(new Error("Signing in timed out."));
+		}, SIGN_IN_TIMEOUT);
+
+		server.on("request", (request, response) => {
+			const { searchParams } = new URL(request.url || "", redirectUri);
+			if (!searchParams.has("code") && !searchParams.has("error")) {
+				response.writeHead(404);
+				return response.end();
+			}
+			response.writeHead(200, { "Content-Type": "text/html" });
+			response.end(
+				"<p>You can close this tab and return to Obsidian.</p>"
+			);
+			window.clearTimeout(timeout);
+			server.close();
+			resolve(searchParams);
+		});
+	});
+
+	return { redirectUri, params };
+};
+
+/**
+ * Receives the authorization redirect through an `obsidian://google-drive-sync-auth` link, which the configured redirect URI must forward to
+ */
+const listenOnProtocol = (redirectUri: string) => {
+	const params = new Promise<URLSearchParams>((resolve, reject) => {
+		const timeout = window.setTimeout(() => {
+			pendingRedirect = undefined;
+			reject(new Error("Signing in timed out."));
+		}, SIGN_IN_TIMEOUT);
+
+		pendingRedirect = (params) => {
+			window.clearTimeout(timeout);
+			pendingRedirect = undefined;
+			resolve(params);
+		};
+	});
+
+	return { redirectUri, params };
+};
+
+export const handleAuthRedirect = (data: ObsidianProtocolData) => {
+	const params = new URLSearchParams();
+	Object.entries(data).forEach(([key, value]) => {
+		if (key !== "action") params.set(key, value);
+	});
+	pendingRedirect?.(params);
+};
+
+/**
+ * Runs the authorization code flow with PKCE against the user's own OAuth client
+ * @returns The refresh token
+ */
+export const signInWithGoogle = async (t: ObsidianGoogleDrive) => {
+	const { clientId, clientSecret, redirectUri } = t.settings;
+	if (!clientId) throw new Error("Please enter your OAuth client ID.");
+
+	if (!redirectUri && !Platform.isDesktopApp) {
+		throw new Error(
+			"Signing in on mobile requires a redirect URI that forwards to Obsidian."
+		);
+	}
+
+	const redirect = redirectUri
+		? listenOnProtocol(redirectUri)
+		: await listenOnLoopback();
+	const { verifier, challenge } = await createPkcePair();
+	const state = randomString();
+
+	window.open(
+		`${GOOGLE_AUTH_URL}?${new URLSearchParams({
+			client_id: clientId,
+			redirect_uri: redirect.redirectUri,
+			response_type: "code",
+			scope: DRIVE_SCOPE,
+			code_challenge: challenge,
+			code_challenge_method: "S256",
+			access_type: "offline",
+			prompt: "consent",
+			state,
+		}).toString()}`
+	);
+
+	const params = await redirect.params;
+	if (params.get("state") !== state) {
+		throw new Error("The sign in response did not match the request.");
+	}
+	const code = params.get("code");
+	if (!code) {
+		throw new Error(`Google denied access: ${params.get("error")}`);
+	}
+
+	const response = await requestUrl({
+		url: GOOGLE_TOKEN_URL,
+		method: "POST",
+		contentType: "application/x-www-form-urlencoded",
+		body: new URLSearchParams({
+			client_id: clientId,
+			...(clientSecret ? { client_secret: clientSecret } : {}),
+			code,
+			code_verifier: verifier,
+			grant_type: "authorization_code",
+			redirect_uri: redirect.redirectUri,
+		}).toString(),
+	});
+
+	const { refresh_token, access_token, expires_in } = response.json;
+	t.accessToken = {
+		token: access_token,
+		expiresAt: Date.now() + expires_in * 1000,
+	};
+	return refresh_token as string;
+};
+
+/**
+ * Exchanges the refresh token directly with Google, bypassing the token proxy
+ */
+export const refreshWithGoogle = async (t: ObsidianGoogleDrive) => {
+	const { clientId, clientSecret, refreshToken } = t.settings;
+	const response = await requestUrl({
+		url: GOOGLE_TOKEN_URL,
+		method: "POST",
+		contentType: "application/x-www-form-urlencoded",
+		body: new URLSearchParams({
+			client_id: clientId,
+			...(clientSecret ? { client_secret: clientSecret } : {}),
+			grant_type: "refresh_token",
+			refresh_token: refreshToken,
+		}).toString(),
+		throw: false,
+	});
+	if (response.status >= 400) {
+		let error: { error?: string; error_description?: string } = {};
+		try {
+			error = response.json;
+		} catch {
+			// Not a JSON error, e.g. from a proxy in between
+		}
+		throw new OAuthError(
+			error.error || String(response.status),
+			error.error_description
+		);
+	}
+	return response.json as { access_token: string; expires_in: number };
+};
@@ -0,0 +1,169 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, Notice, Setting } from "obsidian";
+import { FileMetadata, folderMimeType } from "./drive";
+import { describeError, DriveError } from "./errors";
+
+interface Folder {
+	id: string;
+	name: string;
+}
+
+/**
+ * Stands in for the folders shared with the user, which have no common parent on Google Drive
+ */
+const SHARED_WITH_ME: Folder = { id: "sharedWithMe", name: "Shared with me" };
+
+class FolderPickerModal extends Modal {
+	t: ObsidianGoogleDrive;
+	proceed: (folder?: Folder) => void;
+	/**
+	 * The folders opened so far, from the top down
+	 */
+	trail: Folder[];
+	folders: FileMetadata[] = [];
+	nextPageToken?: string;
+	picked?: Folder;
+
+	constructor(t: ObsidianGoogleDrive, proceed: (folder?: Folder) => void) {
+		super(t.app);
+		this.t = t;
+		this.proceed = proceed;
+
+		this.setTitle("Choose the vault folder");
+		// A shared drive's ID is also the ID of its top folder
+		this.trail = [
+			t.settings.sharedDriveId
+				? { id: t.settings.sharedDriveId, name: "Shared drive" }
+				: { id: "root", name: "My Drive" },
+		];
+		this.openFolder(this.trail[0]);
+	}
+
+	get current() {
+		return this.trail[this.trail.length - 1];
+	}
+
+	async openFolder(folder: Folder) {
+		const index = this.trail.findIndex(({ id }) => id === folder.id);
+		this.trail =
+			index === -1
+				? [...this.trail, folder]
+				: this.trail.slice(0, index + 1);
+		this.folders = [];
+		this.nextPageToken = undefined;
+		await this.loadMore();
+	}
+
+	async loadMore() {
+		const { id } = this.current;
+		try {
+			const { files, nextPageToken } = await this.t.drive.paginateFiles({
+				matches: [
+					id === SHARED_WITH_ME.id
+						? { mimeType: folderMimeType, sharedWithMe: true }
+						: { mimeType: folderMimeType, parent: id },
+				],
+				order: "ascending",
+				pageSize: 100,
+				pageToken: this.nextPageToken,
+				include: ["id", "name"],
+				inVault: false,
+			});
+			this.folders.push(...files);
+			this.nextPageToken = nextPageToken;
+		} catch (e) {
+			new Notice(
+				`Could not list the folders: ${describeError(
+					DriveError.from(e, "list")
+				)}`
+			);
+		}
+		this.render();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const trail = contentEl.createEl("p");
+		this.trail.forEach((folder, index) => {
+			if (index) trail.appendText(" / ");
+			trail
+				.createEl("a", { text: folder.name, href: "#" })
+				.addEventListener("click", (e) => {
+					e.preventDefault();
+					this.openFolder(folder);
+				});
+		});
+
+		const isTop = this.trail.length === 1 && !this.t.settings.sharedDriveId;
+		const folders: Folder[] = isTop
+			? [SHARED_WITH_ME, ...this.folders]
+			: this.folders;
+
+		if (!folders.length) {
+			contentEl.createEl("p").setText("This folder has no subfolders.");
+		}
+
+		folders.forEach((folder) =>
+			new Setting(contentEl)
+				.setName(folder.name)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Open")
+						.onClick(() => this.openFolder(folder))
+				)
+		);
+
+		if (this.nextPageToken) {
+			new Setting(contentEl).addButton((btn) =>
+				btn.setButtonText("Load more").onClick(() => {
+					btn.setDisabled(true);
+					this.loadMore();
+				})
+			);
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(`Store the vault in ${this.current.name}`)
+					.setCta()
+					// "Shared with me" is a list rather than a folder files can be put in
+					.setDisabled(this.current.id === SHARED_WITH_ME.id)
+					.onClick(() => {
+						this.picked = this.current;
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		this.proceed(this.picked);
+	}
+}
+
+/**
+ * Lets the user browse their Google Drive for the folder to store the vault in
+ */
+export const pickFolder = async (t: ObsidianGoogleDrive) => {
+	const folder = await new Promise<Folder | undefined>((resolve) => {
+		new FolderPickerModal(t, resolve).open();
+	});
+	if (folder?.id !== "root") return folder;
+
+	// Files list their parents by ID, never by the "root" alias
+	try {
+		const { id } = await t.drive.getFileMetadata("root");
+		return { ...folder, id };
+	} catch (e) {
+		new Notice(
+			`Could not find your My Drive folder: ${describeError(
+				DriveError.from(e, "metadata")
+			)}`
+		);
+	}
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { createPlugin } from "../__mocks__/plugin";
+import { md5 } from "./drive";
+import { fingerprint, planSync, SyncPlan } from "./plan";
+
+const plan = (steps: SyncPlan["steps"]): SyncPlan => ({
+	mode: "push",
+	steps,
+	createdAt: 0,
+});
+
+describe("fingerprint", () => {
+	it("ignores the order of steps and their details", () => {
+		expect(
+			fingerprint(
+				plan([
+					{ action: "upload", path: "a.md", detail: "1 KB" },
+					{ action: "download", path: "b.md" },
+				])
+			)
+		).toBe(
+			fingerprint(
+				plan([
+					{ action: "download", path: "b.md" },
+					{ action: "upload", path: "a.md", detail: "2 KB" },
+				])
+			)
+		);
+	});
+
+	it("ignores configuration files", () => {
+		expect(
+			fingerprint(
+				plan([
+					{ action: "upload", path: "a.md" },
+					{
+						action: "upload",
+						path: ".obsidian/workspace.json",
+						config: true,
+					},
+				])
+			)
+		).toBe(fingerprint(plan([{ action: "upload", path: "a.md" }])));
+	});
+
+	it("tells apart plans that do something else", () => {
+		const uploads = fingerprint(plan([{ action: "upload", path: "a.md" }]));
+		expect(fingerprint(plan([{ action: "update", path: "a.md" }]))).not.toBe(
+			uploads
+		);
+		expect(fingerprint(plan([{ action: "upload", path: "b.md" }]))).not.toBe(
+			uploads
+		);
+		expect(fingerprint(plan([]))).not.toBe(uploads);
+	});
+});
+
+describe("planSync", () => {
+	it("plans a push without changing or saving anything", async () => {
+		const t = createPlugin({
+			files: { "a.md": "changed outside Obsidian", "b.md": "b" },
+			settings: {
+				operations: { "b.md": "modify" },
+				driveIdToPath: { a: "a.md", b: "b.md" },
+				fileStates: {
+					"a.md": {
+						modifiedTime: "",
+						md5: md5(new TextEncoder().encode("a").buffer),
+						size: 1,
+						mtime: 0,
+					},
+					"b.md": {
+						modifiedTime: "",
+						md5: md5(new TextEncoder().encode("b").buffer),
+					},
+				},
+			},
+		});
+		const settings = structuredClone(t.settings);
+
+		const plan = await planSync(t, "push");
+
+		// The outside change is planned, and the modification that changed nothing is not
+		expect(plan.steps).toEqual([{ action: "update", path: "a.md" }]);
+		expect(t.settings).toEqual(settings);
+		expect(t.saveSettings).not.toHaveBeenCalled();
+	});
+});
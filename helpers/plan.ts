@@ -0,0 +1,469 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, moment, Notice, Setting } from "obsidian";
+import { FileMetadata, folderMimeType, md5 } from "./drive";
+import { remoteChangedSinceSync } from "./conflicts";
+import { loadIgnoreRules } from "./ignore";
+import { findNativeFiles, resolveNativeFiles } from "./native";
+import { pull } from "./pull";
+import { preparePush, push } from "./push";
+import { reset } from "./reset";
+import { findIncludedFiles } from "./selective";
+import { ensureVaultId } from "./vault";
+
+export type SyncMode = "push" | "pull" | "reset";
+
+type PlanAction =
+	| "renameLocal"
+	| "deleteLocal"
+	| "createFolder"
+	| "download"
+	| "merge"
+	| "export"
+	| "keep"
+	| "renameRemote"
+	| "deleteRemote"
+	| "upload"
+	| "update";
+
+interface PlanStep {
+	action: PlanAction;
+	path: string;
+	detail?: string;
+	/**
+	 * Obsidian's own settings, which it rewrites all the time
+	 */
+	config?: boolean;
+}
+
+/**
+ * Everything a sync would do, worked out without changing the vault or Google Drive
+ */
+export interface SyncPlan {
+	mode: SyncMode;
+	steps: PlanStep[];
+	createdAt: number;
+}
+
+/**
+ * In the order the steps are carried out
+ */
+const ACTION_LABELS: Record<PlanAction, string> = {
+	renameLocal: "Rename in the vault",
+	deleteLocal: "Delete from the vault",
+	createFolder: "Create folder in the vault",
+	download: "Download from Google Drive",
+	merge: "Merge with the changes on Google Drive",
+	export: "Export from Google Docs, Sheets or Slides",
+	keep: "Keep to upload again",
+	renameRemote: "Rename on Google Drive",
+	deleteRemote: "Delete from Google Drive",
+	upload: "Upload to Google Drive",
+	update: "Update on Google Drive",
+};
+
+const MODE_NAMES: Record<SyncMode, string> = {
+	push: "Push",
+	pull: "Pull",
+	reset: "Reset",
+};
+
+/**
+ * Mirrors what `pull` does with the files changed on Google Drive since the last sync
+ */
+const planPull = async (t: ObsidianGoogleDrive, steps: PlanStep[]) => {
+	const { vault } = t.app;
+	const { adapter } = vault;
+	await loadIgnoreRules(t);
+	const { operations, driveIdToPath, fileStates, lastSyncedAt } =
+		t.settings;
+
+	const [recentlyModified, hiddenFiles, includedFiles, nativeFiles, changes] =
+		await Promise.all([
+			t.drive.searchFiles({
+				include: [
+					"id",
+					"modifiedTime",
+					"properties",
+					"mimeType",
+					"md5Checksum",
+				],
+				matches: [
+					{
+						modifiedTime: {
+							gt: new Date(lastSyncedAt).toISOString(),
+						},
+					},
+				],
+			}),
+			t.drive.searchHiddenFiles(),
+			findIncludedFiles(t),
+			findNativeFiles(t),
+			t.drive.getChanges(t.settings.changesToken),
+		]);
+
+	const recentFiles = [
+		...recentlyModified,
+		...hiddenFiles.filter(
+			({ modifiedTime }) =>
+				new Date(modifiedTime) > new Date(lastSyncedAt)
+		),
+	];
+	const recentIds = new Set(recentFiles.map(({ id }) => id));
+	const files = [
+		...recentFiles,
+		...includedFiles.filter(({ id }) => !recentIds.has(id)),
+	].filter(
+		({ properties, mimeType }) =>
+			properties?.path &&
+			t.shouldSyncFile(properties.path, mimeType === folderMimeType)
+	);
+
+	// Where each remotely renamed file is until the rename is applied
+	const localPaths: Record<string, string> = {};
+	files.forEach(({ id, properties }) => {
+		const localPath = driveIdToPath[id];
+		if (!localPath || localPath === properties.path) return;
+		if (operations[localPath] === "rename") return;
+		localPaths[properties.path] = localPath;
+		steps.push({
+			action: "renameLocal",
+			path: properties.path,
+			detail: `from ${localPath}`,
+		});
+	});
+
+	for (const { fileId } of changes.filter(({ removed }) => removed)) {
+		const path = driveIdToPath[fileId];
+		if (!path || !(await adapter.exists(path))) continue;
+		if (!t.shouldSyncFile(path, !!vault.getFolderByPath(path))) continue;
+		const operation = operations[path];
+		steps.push(
+			operation === "modify" || operation === "rename"
+				? {
+						action: "keep",
+						path,
+						detail: "Deleted on Google Drive, but changed in the vault",
+				  }
+				: { action: "deleteLocal", path }
+		);
+	}
+
+	const planFile = async (file: FileMetadata) => {
+		const { path } = file.properties;
+		const localPath = localPaths[path] || path;
+		const operation = operations[localPath];
+
+		if (file.mimeType === folderMimeType) {
+			if (!(await adapter.exists(localPath))) {
+				steps.push({ action: "createFolder", path });
+			}
+			return;
+		}
+
+		const exists = await adapter.exists(localPath);
+		const content = exists
+			? await adapter.readBinary(localPath)
+			: undefined;
+		if (content && file.md5Checksum && md5(content) === file.md5Checksum) {
+			return;
+		}
+
+		const changedLocally =
+			content &&
+			(operation === "modify" ||
+				operation === "create" ||
+				(operation === "rename" &&
+					md5(content) !== fileStates[localPath]?.md5));
+		if (changedLocally) {
+			if (remoteChangedSinceSync(t, file)) {
+				steps.push({
+					action: "merge",
+					path,
+					detail: "Changed on both sides, so overlapping changes are kept as a conflict copy",
+				});
+			}
+			return;
+		}
+
+		steps.push({
+			action: "download",
+			path,
+			detail:
+				operation === "delete"
+					? "Restores a file deleted in the vault"
+					: exists
+					? "Replaces the file in the vault"
+					: undefined,
+		});
+	};
+	for (const file of files) await planFile(file);
+
+	(await resolveNativeFiles(t, nativeFiles)).forEach(({ path }) =>
+		steps.push({ action: "export", path })
+	);
+};
+
+/**
+ * Mirrors what `push` uploads, renames and deletes after pulling
+ */
+const planPush = async (t: ObsidianGoogleDrive, steps: PlanStep[]) => {
+	const { adapter } = t.app.vault;
+	const { fileStates, trashDeletions } = t.settings;
+
+	// Prepared on copies, so that nothing changes until the push is run
+	const operations = { ...t.settings.operations };
+	const renames = { ...t.settings.renames };
+	await preparePush(t, operations, renames);
+
+	Object.keys(operations)
+		.sort()
+		.forEach((path) => {
+			const operation = operations[path];
+			if (operation === "create") steps.push({ action: "upload", path });
+			if (operation === "modify") steps.push({ action: "update", path });
+			if (operation === "rename") {
+				steps.push({
+					action: "renameRemote",
+					path,
+					detail: `from ${renames[path]}`,
+				});
+			}
+			if (operation === "delete") {
+				steps.push({
+					action: "deleteRemote",
+					path,
+					detail: trashDeletions
+						? "Moved to the Google Drive trash"
+						: "Deleted permanently",
+				});
+			}
+		});
+
+	const pathToId = Object.fromEntries(
+		Object.entries(t.settings.driveIdToPath).map(([id, path]) => [path, id])
+	);
+	for (const path of await t.drive.getConfigFilesToSync()) {
+		if (!pathToId[path]) {
+			steps.push({
+				action: "upload",
+				path,
+				detail: "Configuration",
+				config: true,
+			});
+			continue;
+		}
+		const content = await adapter.readBinary(path);
+		if (fileStates[path]?.md5 !== md5(content)) {
+			steps.push({
+				action: "update",
+				path,
+				detail: "Configuration",
+				config: true,
+			});
+		}
+	}
+
+	const configOnDrive = await t.drive.searchFiles({
+		include: ["properties"],
+		matches: [{ properties: { config: "true" } }],
+	});
+	for (const { properties } of configOnDrive) {
+		if (!(await adapter.exists(properties.path))) {
+			steps.push({
+				action: "deleteRemote",
+				path: properties.path,
+				detail: "Configuration",
+				config: true,
+			});
+		}
+	}
+};
+
+/**
+ * Mirrors how `reset` undoes every pending operation with the version on Google Drive
+ */
+const planReset = (t: ObsidianGoogleDrive, steps: PlanStep[]) => {
+	const { operations, renames } = t.settings;
+
+	Object.keys(operations)
+		.sort()
+		.forEach((path) => {
+			const operation = operations[path];
+			if (operation === "rename") {
+				steps.push({
+					action: "renameLocal",
+					path: renames[path],
+					detail: `back from ${path}`,
+				});
+			}
+			if (operation === "create") {
+				steps.push({ action: "deleteLocal", path });
+			}
+			if (operation === "modify") {
+				steps.push({
+					action: "download",
+					path,
+					detail: "Discards the changes made in the vault",
+				});
+			}
+			if (operation === "delete") {
+				steps.push({
+					action: "download",
+					path,
+					detail: "Restores the deleted file",
+				});
+			}
+		});
+};
+
+export const planSync = async (t: ObsidianGoogleDrive, mode: SyncMode) => {
+	await ensureVaultId(t);
+
+	const steps: PlanStep[] = [];
+	await planPull(t, steps);
+	if (mode === "push") await planPush(t, steps);
+	if (mode === "reset") planReset(t, steps);
+
+	return { mode, steps, createdAt: Date.now() } as SyncPlan;
+};
+
+// Configuration is left out, or a plugin saving its settings in the meantime would void every plan
+export const fingerprint = ({ steps }: SyncPlan) =>
+	steps
+		.filter(({ config }) => !config)
+		.map(({ action, path }) => `${action} ${path}`)
+		.sort()
+		.join("\n");
+
+/**
+ * Makes sure a sync does what was reviewed, by planning it again right before it starts
+ */
+export const checkPlan = async (t: ObsidianGoogleDrive, plan: SyncPlan) => {
+	const current = await planSync(t, plan.mode);
+	if (fingerprint(current) !== fingerprint(plan)) {
+		throw new Error(
+			"Google Drive or the vault changed since the plan was made, so nothing was synced. Please review the new plan."
+		);
+	}
+};
+
+const planToMarkdown = ({ mode, steps, createdAt }: SyncPlan) => {
+	const lines = [
+		`# ${MODE_NAMES[mode]} plan`,
+		"",
+		`Made ${moment(createdAt).format("YYYY-MM-DD HH:mm")}.`,
+	];
+	if (!steps.length) lines.push("", "Nothing to sync.");
+
+	(Object.keys(ACTION_LABELS) as PlanAction[]).forEach((action) => {
+		const actionSteps = steps.filter((step) => step.action === action);
+		if (!actionSteps.length) return;
+		lines.push("", `## ${ACTION_LABELS[action]} (${actionSteps.length})`, "");
+		actionSteps.forEach(({ path, detail }) =>
+			lines.push(`- \`${path}\`${detail ? ` (${detail})` : ""}`)
+		);
+	});
+	return lines.join("\n") + "\n";
+};
+
+class PlanModal extends Modal {
+	proceed: (run: boolean) => void;
+	running = false;
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		plan: SyncPlan,
+		proceed: (run: boolean) => void
+	) {
+		super(t.app);
+		this.proceed = proceed;
+		const { contentEl } = this;
+
+		this.setTitle(`${MODE_NAMES[plan.mode]} plan`);
+		contentEl
+			.createEl("p")
+			.setText(
+				plan.steps.length
+					? "Running this sync will do the following, and nothing else:"
+					: "There is nothing to sync."
+			);
+
+		(Object.keys(ACTION_LABELS) as PlanAction[]).forEach((action) => {
+			const steps = plan.steps.filter((step) => step.action === action);
+			if (!steps.length) return;
+
+			contentEl
+				.createEl("h6")
+				.setText(`${ACTION_LABELS[action]} (${steps.length})`);
+			const list = contentEl.createEl("ul");
+			steps.forEach(({ path, detail }) => {
+				const item = list.createEl("li", { cls: "operation-file" });
+				item.setText(path);
+				if (detail) {
+					item.createSpan({
+						cls: "setting-item-description",
+						text: ` ${detail}`,
+					});
+				}
+			});
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Export as note").onClick(async () => {
+					const path = `${MODE_NAMES[plan.mode]} plan ${moment(
+						plan.createdAt
+					).format("YYYY-MM-DD HH-mm")}.md`;
+					if (await t.app.vault.adapter.exists(path)) {
+						return new Notice(`${path} already exists.`);
+					}
+					// Not queued for pushing, so that the plan itself stays the same
+					await t.createFile(
+						path,
+						new TextEncoder().encode(planToMarkdown(plan)).buffer
+					);
+					new Notice(`Saved the plan to ${path}.`);
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(MODE_NAMES[plan.mode])
+					.setCta()
+					.onClick(() => {
+						this.running = true;
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		this.proceed(this.running);
+	}
+}
+
+/**
+ * Shows what a sync would do, and runs exactly that once the user has reviewed it
+ */
+export const previewSync = async (t: ObsidianGoogleDrive, mode: SyncMode) => {
+	if (t.syncing) return;
+
+	const notice = new Notice("Planning the sync...", 0);
+	let plan: SyncPlan;
+	try {
+		plan = await planSync(t, mode);
+	} finally {
+		notice.hide();
+	}
+
+	const run = await new Promise<boolean>((resolve) => {
+		new PlanModal(t, plan, resolve).open();
+	});
+	if (!run) return;
+
+	if (mode === "push") return push(t, undefined, plan);
+	if (mode === "pull") return pull(t, false, plan);
+	return reset(t, plan);
+};
@@ -1,23 +1,46 @@
 import ObsidianGoogleDrive from "main";
 import { Notice, TFile, TFolder } from "obsidian";
+import { logDeletion, logDownload } from "./activity";
 import {
 	batchAsyncs,
 	FileMetadata,
 	folderMimeType,
 	foldersToBatches,
 	getSyncMessage,
+	md5,
 } from "./drive";
 import { refreshAccessToken } from "./ky";
-
+import {
+	Conflict,
+	remoteChangedSinceSync,
+	resolveConflicts,
+	showConflictsNotice,
+} from "./conflicts";
+import { decodeText } from "./diff";
+import { catchSyncError, DriveError } from "./errors";
+import { loadIgnoreRules } from "./ignore";
+import { isMergeable, merge3, readBase, removeBase, writeBase } from "./merge";
+import { setFileState } from "./scan";
+import { exportNativeFiles, findNativeFiles } from "./native";
+import { clearIncludedFolders, findIncludedFiles } from "./selective";
+import { checkPlan, SyncPlan } from "./plan";
+
+/**
+ * @param plan A reviewed plan, which stops the pull if it no longer holds
+ * @param deferConflicts Leaves files changed on both sides as they are rather than asking, for automatic syncs that nobody may be around for
+ */
 export const pull = async (
 	t: ObsidianGoogleDrive,
-	silenceNotices?: boolean
+	silenceNotices?: boolean,
+	plan?: SyncPlan,
+	deferConflicts?: boolean
 ) => {
 	let syncNotice: any = null;
 
 	if (!silenceNotices) {
 		if (t.syncing) return;
-		syncNotice = await t.startSync();
+		syncNotice = await t.startSync("pull");
+		if (plan) await checkPlan(t, plan);
 	}
 
 	const { vault } = t.app;
@@ -26,10 +49,17 @@ export const pull = async (
 	console.log("[GDriveSync] Starting pull operation");
 	
 	if (!t.accessToken.token) await refreshAccessToken(t);
+	await loadIgnoreRules(t);
 
 	console.log("[GDriveSync] Searching for recently modified files...");
 	const recentlyModified = await t.drive.searchFiles({
-		include: ["id", "modifiedTime", "properties", "mimeType"],
+		include: [
+			"id",
+			"modifiedTime",
+			"properties",
+			"mimeType",
+			"md5Checksum",
+		],
 		matches: [
 			{
 				modifiedTime: {
@@ -38,10 +68,6 @@ export const pull = async (
 			},
 		],
 	});
-	if (!recentlyModified) {
-		console.error("[GDriveSync] Failed to fetch recently modified files");
-		return new Notice("An error occurred fetching Google Drive files. Check console for details.");
-	}
 
 	console.log(`[GDriveSync] Found ${recentlyModified.length} recently modified files`);
 
@@ -54,20 +80,92 @@ export const pull = async (
 	
 	console.log(`[GDriveSync] Found ${hiddenFiles.length} total hidden files, ${recentHiddenFiles.length} recently modified`);
 	
-	const allRecentFiles = [...recentlyModified, ...recentHiddenFiles];
+	const recentIds = new Set(
+		[...recentlyModified, ...recentHiddenFiles].map(({ id }) => id)
+	);
+	const includedFiles = (await findIncludedFiles(t)).filter(
+		({ id }) => !recentIds.has(id)
+	);
+
+	// Ignored and excluded paths keep whatever version this device has
+	const allRecentFiles = [
+		...recentlyModified,
+		...recentHiddenFiles,
+		...includedFiles,
+	].filter(
+		({ properties, mimeType }) =>
+			!properties?.path ||
+			t.shouldSyncFile(properties.path, mimeType === folderMimeType)
+	);
 	console.log(`[GDriveSync] Total files to process: ${allRecentFiles.length}`);
 
-	const changes = await t.drive.getChanges(t.settings.changesToken);
-	if (!changes) {
-		return new Notice("An error occurred fetching Google Drive changes.");
+	const nativeFiles = await findNativeFiles(t);
+	console.log(`[GDriveSync] Found ${nativeFiles.length} recently modified Google Docs, Sheets and Slides`);
+
+	const createParentFolders = async (path: string) => {
+		const parts = path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			const folder = parts.slice(0, i).join("/");
+			if (!(await adapter.exists(folder))) await t.createFolder(folder);
+		}
+	};
+
+	// Shallowest first, so that a renamed folder takes everything inside along with it
+	const renamedFiles = allRecentFiles
+		.filter(
+			({ id, properties }) =>
+				properties?.path &&
+				t.settings.driveIdToPath[id] &&
+				t.settings.driveIdToPath[id] !== properties.path
+		)
+		.sort(
+			(a, b) =>
+				a.properties.path.split("/").length -
+				b.properties.path.split("/").length
+		);
+
+	for (const file of renamedFiles) {
+		const localPath = t.settings.driveIdToPath[file.id];
+		const { path } = file.properties;
+		if (localPath === path) continue;
+
+		// Renamed on this device as well, so the local name is pushed over the remote one
+		if (t.settings.operations[localPath] === "rename") {
+			file.properties.path = localPath;
+			continue;
+		}
+
+		if (await adapter.exists(path)) continue;
+		await createParentFolders(path);
+
+		const localFile = vault.getAbstractFileByPath(localPath);
+		if (localFile) {
+			await t.renameFile(localFile, path);
+		} else if (await adapter.exists(localPath)) {
+			await adapter.rename(localPath, path);
+			t.moveSyncState(localPath, path);
+		}
 	}
 
+	const changes = await t.drive.getChanges(t.settings.changesToken);
+
+	// Who deleted each file on Google Drive and when, for the activity log
+	const deletionSources: Record<string, { by?: string; at: string }> = {};
+	const baseRemovals: Promise<void>[] = [];
+
 	const deletions = changes
 		.filter(({ removed }) => removed)
-		.map(({ fileId }) => {
-			const path = t.settings.driveIdToPath[fileId];
+		.map((change) => {
+			const path = t.settings.driveIdToPath[change.fileId];
 			if (!path) return;
-			delete t.settings.driveIdToPath[fileId];
+			if (!t.shouldSyncFile(path, !!vault.getFolderByPath(path))) return;
+			deletionSources[path] = {
+				by: change.file?.properties?.deletedBy,
+				at: change.time,
+			};
+			delete t.settings.driveIdToPath[change.fileId];
+			delete t.settings.fileStates[path];
+			baseRemovals.push(removeBase(t, path));
 
 			const file = vault.getAbstractFileByPath(path);
 
@@ -77,8 +175,9 @@ export const pull = async (
 			}
 			return file;
 		});
+	await Promise.all(baseRemovals);
 
-	if (!allRecentFiles.length && !deletions.length) {
+	if (!allRecentFiles.length && !deletions.length && !nativeFiles.length) {
 		if (silenceNotices) return;
 		t.endSync(syncNotice);
 		return new Notice("You're up to date!");
@@ -106,9 +205,11 @@ export const pull = async (
 		const deletedFiles = deletions
 			.filter((file) => file instanceof TFile)
 			.filter((file: TFile) => {
-				if (t.settings.operations[file.path] === "modify") {
+				const operation = t.settings.operations[file.path];
+				if (operation === "modify" || operation === "rename") {
 					if (!pathToId[file.path]) {
 						t.settings.operations[file.path] = "create";
+						delete t.settings.renames[file.path];
 					}
 					return;
 				}
@@ -120,6 +221,11 @@ export const pull = async (
 		const deletedFolders = deletions
 			.filter((folder) => folder instanceof TFolder)
 			.filter((folder: TFolder) => {
+				if (t.settings.operations[folder.path] === "rename") {
+					t.settings.operations[folder.path] = "create";
+					delete t.settings.renames[folder.path];
+					return;
+				}
 				if (pathToId[folder.path]) return;
 				if (
 					folder.children.find(
@@ -135,12 +241,36 @@ export const pull = async (
 			...deletedFolders,
 			...deletedFiles,
 		]);
+		[...deletedFolders, ...deletedFiles].forEach(({ path }) =>
+			logDeletion(t, { path, from: "vault", ...deletionSources[path] })
+		);
 	};
 
 	await deleteFiles();
 
 	syncNotice?.setMessage("Syncing (33%)");
 
+	const conflicts: Conflict[] = [];
+
+	const mergeNote = async (
+		file: FileMetadata,
+		local: ArrayBuffer,
+		remote: ArrayBuffer
+	) => {
+		if (!isMergeable(file.properties.path)) return;
+		const base = await readBase(t, file.properties.path);
+		const localText = decodeText(local);
+		const remoteText = decodeText(remote);
+		if (
+			base === undefined ||
+			localText === undefined ||
+			remoteText === undefined
+		) {
+			return;
+		}
+		return merge3(base, localText, remoteText);
+	};
+
 	const upsertFiles = async () => {
 		const newFolders = allRecentFiles.filter(
 			({ mimeType }) => mimeType === folderMimeType
@@ -173,47 +303,150 @@ export const pull = async (
 			({ mimeType }) => mimeType !== folderMimeType
 		);
 
-		await batchAsyncs(
-			newNotes.map((file: FileMetadata) => async () => {
-				// Skip files without path property (shouldn't happen with hidden files, but safety check)
-				if (!file.properties?.path) return;
-				
-				const localFile =
-					vault.getFileByPath(file.properties.path) ||
-					(await adapter.exists(file.properties.path));
-				const operation = t.settings.operations[file.properties.path];
-
-				completed++;
-
-				if (localFile && operation === "modify") {
-					return;
+		const syncNote = async (file: FileMetadata) => {
+			const localFile =
+				vault.getFileByPath(file.properties.path) ||
+				(await adapter.exists(file.properties.path));
+			const operation = t.settings.operations[file.properties.path];
+			const remoteChanged = remoteChangedSinceSync(t, file);
+			const remoteState = {
+				modifiedTime: file.modifiedTime,
+				md5: file.md5Checksum,
+			};
+
+			completed++;
+
+			const localContent =
+				localFile && file.md5Checksum
+					? await adapter.readBinary(file.properties.path)
+					: undefined;
+
+			// Identical content on both sides, so there is nothing to transfer
+			if (localContent && md5(localContent) === file.md5Checksum) {
+				if (operation === "modify" || operation === "create") {
+					delete t.settings.operations[file.properties.path];
 				}
+				await setFileState(t, file.properties.path, remoteState);
+				return;
+			}
 
-				if (localFile && operation === "create") {
+			// A renamed file is only at odds with the remote one if it was edited as well
+			const renamedAndEdited =
+				localFile &&
+				operation === "rename" &&
+				md5(
+					localContent ||
+						(await adapter.readBinary(file.properties.path))
+				) !== t.settings.fileStates[file.properties.path]?.md5;
+
+			if (
+				localFile &&
+				(operation === "modify" ||
+					operation === "create" ||
+					renamedAndEdited)
+			) {
+				if (operation !== "rename") {
 					t.settings.operations[file.properties.path] = "modify";
+				}
+				if (!remoteChanged) return;
+
+				const [local, remote] = await Promise.all([
+					localContent || adapter.readBinary(file.properties.path),
+					t.drive.getFile(file.id, file.properties.path),
+				]);
+				logDownload(t, file.properties.path, remote.byteLength);
+
+				const merged = await mergeNote(file, local, remote);
+				if (merged !== undefined && localFile instanceof TFile) {
+					await t.modifyFile(
+						localFile,
+						new TextEncoder().encode(merged).buffer
+					);
+					// The merged note differs from Google Drive until it is pushed
+					await setFileState(
+						t,
+						file.properties.path,
+						remoteState,
+						false
+					);
+					await writeBase(t, file.properties.path, remote);
 					return;
 				}
 
-				const content = await t.drive.getFile(file.id).arrayBuffer();
+				// Both sides changed the same lines, so the user decides once everything else is downloaded
+				conflicts.push({ file, local, remote });
+				return;
+			}
 
-				syncNotice?.setMessage(
-					getSyncMessage(33, 100, completed, newNotes.length)
-				);
+			// A remote edit wins over a local deletion so that nothing is lost
+			if (operation === "delete" && remoteChanged) {
+				delete t.settings.operations[file.properties.path];
+			}
 
-				if (localFile instanceof TFile) {
-					return t.modifyFile(localFile, content, file.modifiedTime);
-				}
+			const content = await t.drive.getFile(
+				file.id,
+				file.properties.path
+			);
+			logDownload(t, file.properties.path, content.byteLength);
 
-				return t.upsertFile(
+			syncNotice?.setMessage(
+				getSyncMessage(33, 100, completed, newNotes.length)
+			);
+
+			if (localFile instanceof TFile) {
+				await t.modifyFile(localFile, content, file.modifiedTime);
+			} else {
+				await t.upsertFile(
 					file.properties.path,
 					content,
 					file.modifiedTime
 				);
+			}
+
+			await setFileState(t, file.properties.path, remoteState);
+			await writeBase(t, file.properties.path, content);
+		};
+
+		await batchAsyncs(
+			newNotes.map((file: FileMetadata) => async () => {
+				// Skip files without path property (shouldn't happen with hidden files, but safety check)
+				if (!file.properties?.path) return;
+
+				// A failed file is reported at the end instead of stopping the rest from downloading
+				await catchSyncError(t, "download", file.properties.path, () =>
+					syncNote(file)
+				);
 			})
 		);
 	};
 
 	await upsertFiles();
+	// Left for the next pull to try again if anything failed to download
+	if (!t.syncErrors.some(({ kind }) => kind === "download")) {
+		clearIncludedFolders(t);
+	}
+	// Applies a pulled ignore file to what follows, and to the next push
+	await loadIgnoreRules(t);
+
+	await exportNativeFiles(t, nativeFiles);
+
+	if (deferConflicts) {
+		// Reported like a failed download, so that the next pull finds them again and pushing leaves them alone
+		conflicts.forEach(({ file }) =>
+			t.syncErrors.push(
+				new DriveError({
+					message:
+						"Changed in the vault and on Google Drive. Sync manually to choose which version to keep.",
+					status: 0,
+					kind: "download",
+					path: file.properties.path,
+				})
+			)
+		);
+	} else if (conflicts.length) {
+		const conflictCopies = await resolveConflicts(t, conflicts);
+		if (conflictCopies.length) showConflictsNotice(conflictCopies);
+	}
 
 	const deleteConfigs = async () => {
 		const configDeletions = await Promise.all(
@@ -224,6 +457,14 @@ export const pull = async (
 					if (!path || vault.getAbstractFileByPath(path)) return;
 					const stat = await adapter.stat(path);
 					if (!stat) return;
+					if (!t.shouldSyncFile(path, stat.type === "folder")) {
+						return;
+					}
+					logDeletion(t, {
+						path,
+						from: "vault",
+						...deletionSources[path],
+					});
 					return { path, type: stat.type };
 				})
 		);
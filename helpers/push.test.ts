@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { createPlugin } from "../__mocks__/plugin";
+import { md5 } from "./drive";
+import { push } from "./push";
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+describe("push", () => {
+	it("leaves deletions and conflicts for the user when automatic", async () => {
+		const batchTrash = vi.fn(async () => {});
+		const updateFile = vi.fn(async (id: string) => id);
+		const synced = "2024-01-01T00:00:00.000Z";
+		const t = createPlugin({
+			files: { "note.md": "local" },
+			settings: {
+				operations: { "gone.md": "delete", "note.md": "modify" },
+				driveIdToPath: { gone: "gone.md", note: "note.md" },
+				fileStates: {
+					"gone.md": { modifiedTime: synced },
+					"note.md": { modifiedTime: synced, md5: md5(encode("base")) },
+				},
+			},
+			drive: {
+				searchFiles: async () => [
+					{
+						id: "note",
+						mimeType: "text/markdown",
+						modifiedTime: "2024-01-02T00:00:00.000Z",
+						md5Checksum: md5(encode("remote")),
+						properties: { path: "note.md" },
+					},
+				],
+				getFile: async () => encode("remote"),
+				batchTrash,
+				updateFile,
+			},
+		});
+
+		await push(t, undefined, undefined, "quit");
+
+		expect(batchTrash).not.toHaveBeenCalled();
+		expect(updateFile).not.toHaveBeenCalledWith(
+			"note",
+			expect.anything(),
+			expect.anything(),
+			expect.anything()
+		);
+		expect(t.syncErrors).toMatchObject([
+			{ kind: "download", path: "note.md" },
+		]);
+		expect(t.settings.operations).toEqual({
+			"gone.md": "delete",
+			"note.md": "modify",
+		});
+		expect(
+			new TextDecoder().decode(
+				await t.app.vault.adapter.readBinary("note.md")
+			)
+		).toBe("local");
+	});
+
+	it("uploads hidden files, which the vault index leaves out", async () => {
+		const uploadFile = vi.fn(async () => "hidden");
+		const t = createPlugin({
+			files: { "Notes/.hidden": "hidden" },
+			settings: {
+				operations: { Notes: "create", "Notes/.hidden": "create" },
+			},
+			drive: {
+				createFolder: async () => "notes",
+				uploadFile,
+				updateFile: async () => "",
+			},
+		});
+
+		await push(t, undefined, undefined, "idle");
+
+		expect(uploadFile).toHaveBeenCalledWith(
+			expect.any(Blob),
+			".hidden",
+			"notes",
+			expect.objectContaining({ properties: { path: "Notes/.hidden" } })
+		);
+		expect(t.settings.driveIdToPath).toMatchObject({
+			hidden: "Notes/.hidden",
+		});
+		expect(t.settings.operations).toEqual({});
+	});
+});
@@ -1,47 +1,28 @@
-import ObsidianGoogleDrive from "main";
+import ObsidianGoogleDrive, { Operation } from "main";
 import { Modal, Notice, setIcon, Setting, TFile, TFolder } from "obsidian";
+import { logDeletion, logUpload, SyncTrigger } from "./activity";
 import {
 	batchAsyncs,
 	fileNameFromPath,
 	folderMimeType,
+	formatBytes,
 	foldersToBatches,
 	getSyncMessage,
+	md5,
 } from "./drive";
+import { catchSyncError, describeError, DriveError } from "./errors";
+import { loadIgnoreRules } from "./ignore";
+import { removeBase, writeBase } from "./merge";
+import { checkPlan, SyncPlan } from "./plan";
 import { pull } from "./pull";
-
-// Helper function to get all files in vault including hidden ones
-const getAllVaultFiles = async (adapter: any): Promise<string[]> => {
-	const files: string[] = [];
-	
-	const collectFiles = async (folderPath: string = ""): Promise<void> => {
-		try {
-			const list = await adapter.list(folderPath);
-			
-			// Add all files
-			for (const file of list.files) {
-				files.push(file);
-			}
-			
-			// Recursively collect from folders
-			for (const folder of list.folders) {
-				files.push(folder);
-				await collectFiles(folder);
-			}
-		} catch (error) {
-			console.warn(`[GDriveSync] Could not list folder: ${folderPath}`, error);
-		}
-	};
-	
-	await collectFiles();
-	return files;
-};
+import { scanVault, setFileState } from "./scan";
 
 class ConfirmPushModal extends Modal {
 	proceed: (res: boolean) => void;
 
 	constructor(
 		t: ObsidianGoogleDrive,
-		initialOperations: [string, "create" | "delete" | "modify"][],
+		initialOperations: [string, Operation][],
 		proceed: (res: boolean) => void
 	) {
 		super(t.app);
@@ -89,7 +70,11 @@ class ConfirmPushModal extends Modal {
 					hiddenIcon.title = "Hidden file (starts with .)";
 				}
 				
-				p.createSpan().setText(`: ${path}`);
+				p.createSpan().setText(
+					op === "rename"
+						? `: ${t.settings.renames[path]} → ${path}`
+						: `: ${path}`
+				);
 
 				if (
 					op === "delete" &&
@@ -101,26 +86,9 @@ class ConfirmPushModal extends Modal {
 				const btn = div.createDiv().createEl("button");
 				setIcon(btn, "trash-2");
 				btn.onclick = async () => {
-					const nestedFiles = operations
-						.map(([file]) => file)
-						.filter(
-							(file) =>
-								file.startsWith(path + "/") || file === path
-						);
-					const proceed = await new Promise<boolean>((resolve) => {
-						new ConfirmUndoModal(
-							t,
-							op,
-							nestedFiles,
-							resolve
-						).open();
-					});
-
-					if (!proceed) return;
-
-					nestedFiles.forEach(
-						(file) => delete t.settings.operations[file]
-					);
+					const nestedFiles = await undoOperation(t, path, op);
+					if (!nestedFiles.length) return;
+
 					const newOperations = operations.filter(
 						([file]) => !nestedFiles.includes(file)
 					);
@@ -159,7 +127,7 @@ class ConfirmUndoModal extends Modal {
 
 	constructor(
 		t: ObsidianGoogleDrive,
-		operation: "create" | "delete" | "modify",
+		operation: Operation,
 		files: string[],
 		proceed: (res: boolean) => void
 	) {
@@ -176,6 +144,7 @@ class ConfirmUndoModal extends Modal {
 			create: "creating",
 			delete: "deleting",
 			modify: "modifying",
+			rename: "renaming",
 		};
 
 		this.setTitle("Undo confirmation");
@@ -203,14 +172,27 @@ class ConfirmUndoModal extends Modal {
 					.setCta()
 					.onClick(async () => {
 						btn.setDisabled(true);
-						if (operation === "delete") {
-							await this.handleDelete(files);
-						}
-						if (operation === "create") {
-							await this.handleCreate(files[0]);
-						}
-						if (operation === "modify") {
-							await this.handleModify(files[0]);
+						try {
+							if (operation === "delete") {
+								await this.handleDelete(files);
+							}
+							if (operation === "create") {
+								await this.handleCreate(files[0]);
+							}
+							if (operation === "modify") {
+								await this.handleModify(files[0]);
+							}
+							if (operation === "rename") {
+								await this.handleRename(files[0]);
+							}
+						} catch (e) {
+							new Notice(
+								`Could not undo: ${describeError(
+									DriveError.from(e, "download")
+								)}`
+							);
+							this.close();
+							return;
 						}
 						proceed(true);
 						this.close();
@@ -227,9 +209,6 @@ class ConfirmUndoModal extends Modal {
 			include: ["id", "mimeType", "properties", "modifiedTime"],
 			matches: paths.map((path) => ({ properties: { path } })),
 		});
-		if (!files) {
-			return new Notice("An error occurred fetching Google Drive files.");
-		}
 
 		const pathToFile = Object.fromEntries(
 			files.map((file) => [file.properties.path, file])
@@ -255,14 +234,10 @@ class ConfirmUndoModal extends Modal {
 
 		await batchAsyncs(
 			deletedFiles.map((path) => async () => {
-				const onlineFile = await this.t.drive
-					.getFile(this.filePathToId[path])
-					.arrayBuffer();
-				if (!onlineFile) {
-					return new Notice(
-						"An error occurred fetching Google Drive files."
-					);
-				}
+				const onlineFile = await this.t.drive.getFile(
+					this.filePathToId[path],
+					path
+				);
 				return this.t.createFile(
 					path,
 					onlineFile,
@@ -283,17 +258,99 @@ class ConfirmUndoModal extends Modal {
 		if (!file) return;
 
 		const [onlineFile, metadata] = await Promise.all([
-			this.t.drive.getFile(this.filePathToId[path]).arrayBuffer(),
-			this.t.drive.getFileMetadata(this.filePathToId[path]),
+			this.t.drive.getFile(this.filePathToId[path], path),
+			this.t.drive.getFileMetadata(this.filePathToId[path], path),
 		]);
-		if (!onlineFile || !metadata) {
-			return new Notice("An error occurred fetching Google Drive files.");
-		}
 		return this.t.modifyFile(file, onlineFile, metadata.modifiedTime);
 	}
+
+	async handleRename(path: string) {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const drivePath = this.t.settings.renames[path];
+		if (!file || !drivePath) return;
+
+		const parent = drivePath.split("/").slice(0, -1).join("/");
+		if (
+			this.app.vault.getAbstractFileByPath(drivePath) ||
+			(parent && !this.app.vault.getFolderByPath(parent))
+		) {
+			throw new Error(
+				`${drivePath} is taken or its folder no longer exists.`
+			);
+		}
+		return this.app.vault.rename(file, drivePath);
+	}
 }
 
-export const push = async (t: ObsidianGoogleDrive) => {
+/**
+ * Asks to undo a pending operation, along with those of everything inside a folder
+ *
+ * @returns The paths whose operations were undone
+ */
+export const undoOperation = async (
+	t: ObsidianGoogleDrive,
+	path: string,
+	op: Operation
+) => {
+	const nestedFiles = Object.keys(t.settings.operations).filter(
+		(file) => file.startsWith(path + "/") || file === path
+	);
+	const proceed = await new Promise<boolean>((resolve) => {
+		new ConfirmUndoModal(t, op, nestedFiles, resolve).open();
+	});
+	if (!proceed) return [];
+
+	nestedFiles.forEach((file) => delete t.settings.operations[file]);
+	return nestedFiles;
+};
+
+/**
+ * Queues files that changed outside of Obsidian and drops modifications that changed nothing, before the operations are shown
+ *
+ * @param operations The pending operations to prepare, or a copy of them along with `renames` to leave the settings as they are
+ */
+export const preparePush = async (
+	t: ObsidianGoogleDrive,
+	operations = t.settings.operations,
+	renames = t.settings.renames
+) => {
+	await loadIgnoreRules(t);
+	// Newly ignored paths are left as they are on Google Drive
+	Object.keys(operations).forEach((path) => {
+		const isFolder = !!t.app.vault.getFolderByPath(path);
+		if (t.shouldSyncFile(path, isFolder)) return;
+		delete operations[path];
+		delete renames[path];
+	});
+
+	await scanVault(t, operations);
+	const { adapter } = t.app.vault;
+
+	// Drop modifications that leave the content as it was at the last sync, e.g. a touch or a re-save by a formatter
+	await Promise.all(
+		Object.entries(operations).map(async ([path, op]) => {
+			const hash = t.settings.fileStates[path]?.md5;
+			if (op !== "modify" || !hash || !(await adapter.exists(path))) {
+				return;
+			}
+			if (md5(await adapter.readBinary(path)) === hash) {
+				delete operations[path];
+			}
+		})
+	);
+};
+
+/**
+ * @param paths Only pushes these files and folders, along with pending changes to the folders they are in
+ * @param plan A reviewed plan, which replaces the confirmation and stops the push if it no longer holds
+ * @param auto What started an automatic push, which goes ahead without confirmation or notices, and leaves deletions and conflicts for a sync the user starts
+ */
+export const push = async (
+	t: ObsidianGoogleDrive,
+	paths?: string[],
+	plan?: SyncPlan,
+	auto?: SyncTrigger
+) => {
 	if (t.syncing) return;
 	
 	console.log("[GDriveSync] Starting push operation");
@@ -301,82 +358,68 @@ export const push = async (t: ObsidianGoogleDrive) => {
 	// Ensure folder structure exists before pushing files
 	await t.drive.getRootFolderId();
 	
-	// Get all operations including hidden files
-	let allOperations = Object.entries(t.settings.operations);
-	console.log(`[GDriveSync] Found ${allOperations.length} operations from settings`);
-	
-	// Also check for hidden files that might not be in operations but should be synced
-	const hiddenFiles = await t.drive.searchHiddenFiles();
-	console.log(`[GDriveSync] Found ${hiddenFiles.length} hidden files in Drive`);
-	
-	// Check for local hidden files that might need to be pushed
+	await preparePush(t);
+
 	const { vault } = t.app;
 	const adapter = vault.adapter;
-	
-	try {
-		const allLocalFiles = await getAllVaultFiles(adapter);
-		const hiddenLocalFiles = allLocalFiles.filter((path: string) => {
-			const fileName = path.split('/').pop() || '';
-			return fileName.startsWith('.') && t.shouldSyncFile && t.shouldSyncFile(path);
-		});
-		
-		console.log(`[GDriveSync] Found ${hiddenLocalFiles.length} local hidden files`);
-		
-		// Add hidden files to operations if they're not already tracked
-		hiddenLocalFiles.forEach((path: string) => {
-			if (!t.settings.operations[path]) {
-				const file = vault.getAbstractFileByPath(path);
-				if (file) {
-					// Check if file exists in Drive
-					const existsInDrive = hiddenFiles.some(driveFile => 
-						driveFile.properties?.path === path
-					);
-					
-					if (!existsInDrive) {
-						t.settings.operations[path] = "create";
-						console.log(`[GDriveSync] Added hidden file to create: ${path}`);
-					} else {
-						// Check if local file is newer than drive file
-						const driveFile = hiddenFiles.find(df => df.properties?.path === path);
-						if (driveFile && file instanceof TFile) {
-							const localMtime = file.stat.mtime;
-							const driveMtime = new Date(driveFile.modifiedTime).getTime();
-							
-							if (localMtime > driveMtime) {
-								t.settings.operations[path] = "modify";
-								console.log(`[GDriveSync] Added hidden file to modify: ${path}`);
-							}
-						}
-					}
-				}
-			}
-		});
-		
-		// Refresh operations list
-		allOperations = Object.entries(t.settings.operations);
-		console.log(`[GDriveSync] Total operations after hidden file check: ${allOperations.length}`);
-		
-	} catch (error) {
-		console.warn("[GDriveSync] Could not check for hidden files:", error);
-	}
-	
+
+	const isSelected = (path: string) =>
+		!paths ||
+		paths.some(
+			(selected) =>
+				selected === path ||
+				selected.startsWith(path + "/") ||
+				path.startsWith(selected + "/")
+		);
+	const allOperations = Object.entries(t.settings.operations).filter(
+		([path]) => isSelected(path)
+	);
+
 	const initialOperations = allOperations.sort(
 		([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)
 	); // Alphabetical
 
-	const proceed = await new Promise<boolean>((resolve) => {
-		new ConfirmPushModal(t, initialOperations, resolve).open();
-	});
+	const proceed =
+		plan ||
+		auto ||
+		(await new Promise<boolean>((resolve) => {
+			new ConfirmPushModal(t, initialOperations, resolve).open();
+		}));
 
 	if (!proceed) return;
 
-	const syncNotice = await t.startSync();
+	const syncNotice = await t.startSync(auto || "push");
+	// The status bar shows that it is syncing instead
+	if (auto) syncNotice.hide();
+
+	if (plan) await checkPlan(t, plan);
 
-	await pull(t, true);
+	await pull(t, true, undefined, !!auto);
 
-	const finalOperations = Object.entries(t.settings.operations);
+	// Pushing a file that could not be pulled would overwrite its changes on Google Drive
+	const notPulled = new Set(
+		t.syncErrors
+			.filter(({ kind }) => kind === "download")
+			.map(({ path }) => path)
+	);
+	const finalOperations = Object.entries(t.settings.operations).filter(
+		([path]) => isSelected(path) && !notPulled.has(path)
+	);
+
+	const device = t.getDeviceName();
+
+	const showUploadProgress =
+		(message: string, path: string) => (uploaded: number, total: number) =>
+			syncNotice.setMessage(
+				`${message}\n${path}: ${formatBytes(uploaded)} / ${formatBytes(
+					total
+				)}`
+			);
 
-	const deletes = finalOperations.filter(([_, op]) => op === "delete");
+	// Nothing is deleted from Google Drive without the user around to confirm it
+	const deletes = auto
+		? []
+		: finalOperations.filter(([_, op]) => op === "delete");
 	const creates = finalOperations.filter(([_, op]) => op === "create");
 	const modifies = finalOperations.filter(([_, op]) => op === "modify");
 
@@ -384,13 +427,32 @@ export const push = async (t: ObsidianGoogleDrive) => {
 		Object.entries(t.settings.driveIdToPath).map(([id, path]) => [path, id])
 	);
 
-	const configOnDrive = await t.drive.searchFiles({
-		include: ["properties"],
-		matches: [{ properties: { config: "true" } }],
-	});
-	if (!configOnDrive) {
-		return new Notice("An error occurred fetching Google Drive files.");
-	}
+	// Paths that could not be pushed keep their operation, so the next push retries them
+	const failedPaths = new Set<string>();
+
+	const parentFailed = (path: string) =>
+		t.syncErrors.some(
+			(error) =>
+				error.kind === "createFolder" &&
+				error.path &&
+				path.startsWith(error.path + "/")
+		);
+
+	const assertParentCreated = (path: string) => {
+		if (parentFailed(path)) {
+			throw new DriveError({
+				message: "Its parent folder could not be created.",
+				status: 0,
+			});
+		}
+	};
+
+	const configOnDrive = auto
+		? []
+		: await t.drive.searchFiles({
+				include: ["properties"],
+				matches: [{ properties: { config: "true" } }],
+		  });
 
 	await Promise.all(
 		configOnDrive.map(async ({ properties }) => {
@@ -400,88 +462,182 @@ export const push = async (t: ObsidianGoogleDrive) => {
 		})
 	);
 
-	if (deletes.length) {
-		const deleteRequest = await t.drive.batchDelete(
-			deletes.map(([path]) => pathsToIds[path])
-		);
-		if (!deleteRequest) {
-			return new Notice("An error occurred deleting Google Drive files.");
+	// Looked up before any folder is created at the same path as a deleted file
+	const deletedIds = Object.fromEntries(
+		deletes.map(([path]) => [path, pathsToIds[path]])
+	);
+
+	let completed = 0;
+	const files = creates.map(([path]) => vault.getAbstractFileByPath(path));
+
+	const folders = files.filter((file) => file instanceof TFolder) as TFolder[];
+
+	if (folders.length) {
+		const batches = foldersToBatches(folders);
+
+		for (const batch of batches) {
+			await batchAsyncs(
+				batch.map((folder) => async () => {
+					const id = await catchSyncError(
+						t,
+						"createFolder",
+						folder.path,
+						() => {
+							assertParentCreated(folder.path);
+							return t.drive.createFolder({
+								name: folder.name,
+								parent: folder.parent
+									? pathsToIds[folder.parent.path]
+									: undefined,
+								properties: { path: folder.path },
+								modifiedTime: new Date().toISOString(),
+							});
+						}
+					);
+					if (!id) return;
+
+					completed++;
+					syncNotice.setMessage(
+						getSyncMessage(33, 66, completed, files.length)
+					);
+
+					t.settings.driveIdToPath[id] = folder.path;
+					pathsToIds[folder.path] = id;
+				})
+			);
 		}
-		deletes.forEach(([path]) => delete t.settings.driveIdToPath[path]);
 	}
 
-	syncNotice.setMessage("Syncing (33%)");
+	// Renames come after creating the folders they may move into, but before deleting folders they may have moved out of
+	const renames = finalOperations
+		.filter(([_, op]) => op === "rename")
+		.map(([path]) => path)
+		.sort((a, b) => a.split("/").length - b.split("/").length);
+
+	// Shallowest first, so that anything inside a renamed folder is already where it expects to be
+	for (const path of renames) {
+		const file = vault.getAbstractFileByPath(path);
+		if (!file) continue;
+
+		const id = pathsToIds[path];
+		// Never made it to Google Drive, so there is nothing to move
+		if (!id && file instanceof TFile) {
+			delete t.settings.renames[path];
+			files.push(file);
+			continue;
+		}
 
-	if (creates.length) {
-		let completed = 0;
-		const files = creates.map(([path]) =>
-			vault.getAbstractFileByPath(path)
-		);
+		const renamed = await catchSyncError(t, "rename", path, async () => {
+			assertParentCreated(path);
+			if (!id) {
+				throw new DriveError({
+					message: "It could not be found on Google Drive.",
+					status: 404,
+				});
+			}
 
-		const folders = files.filter(
-			(file) => file instanceof TFolder
-		) as TFolder[];
+			await t.drive.renameFile(
+				id,
+				file.name,
+				file.parent ? pathsToIds[file.parent.path] : undefined,
+				path
+			);
 
-		if (folders.length) {
-			const batches = foldersToBatches(folders);
+			// Everything inside keeps its place on Google Drive, but its path property has to follow
+			if (file instanceof TFolder) {
+				await t.drive.batchUpdateProperties(
+					Object.entries(pathsToIds)
+						.filter(([descendant]) =>
+							descendant.startsWith(path + "/")
+						)
+						.map(([descendant, id]) => ({
+							id,
+							properties: { path: descendant },
+						}))
+				);
+			}
+			return true;
+		});
+		if (!renamed) continue;
 
-			for (const batch of batches) {
-				await batchAsyncs(
-					batch.map((folder) => async () => {
-						const id = await t.drive.createFolder({
-							name: folder.name,
-							parent: folder.parent
-								? pathsToIds[folder.parent.path]
-								: undefined,
-							properties: { path: folder.path },
-							modifiedTime: new Date().toISOString(),
-						});
-						if (!id) {
-							return new Notice(
-								"An error occurred creating Google Drive folders."
-							);
-						}
+		delete t.settings.renames[path];
 
-						completed++;
-						syncNotice.setMessage(
-							getSyncMessage(33, 66, completed, files.length)
-						);
+		if (
+			file instanceof TFile &&
+			md5(await vault.readBinary(file)) !==
+				t.settings.fileStates[path]?.md5
+		) {
+			modifies.push([path, "modify"]);
+		}
+	}
 
-						t.settings.driveIdToPath[id] = folder.path;
-						pathsToIds[folder.path] = id;
-					})
-				);
+	if (deletes.length) {
+		const ids = deletes.map(([path]) => deletedIds[path]);
+		const deleted = await catchSyncError(t, "delete", undefined, async () => {
+			if (t.settings.trashDeletions) {
+				await t.drive.batchTrash(ids, device);
+			} else {
+				await t.drive.batchDelete(ids);
 			}
+			return true;
+		});
+		if (!deleted) {
+			deletes.forEach(([path]) => failedPaths.add(path));
+		} else {
+			await Promise.all(
+				deletes.map(([path]) => {
+					logDeletion(t, { path, from: "drive", by: device });
+					delete t.settings.driveIdToPath[deletedIds[path]];
+					delete t.settings.fileStates[path];
+					return removeBase(t, path);
+				})
+			);
 		}
+	}
 
-		const notes = files.filter((file) => file instanceof TFile) as TFile[];
+	syncNotice.setMessage("Syncing (33%)");
 
-		await batchAsyncs(
-			notes.map((note) => async () => {
-				const id = await t.drive.uploadFile(
-					new Blob([await vault.readBinary(note)]),
+	const notes = files.filter((file) => file instanceof TFile) as TFile[];
+
+	await batchAsyncs(
+		notes.map((note) => async () => {
+			const modifiedTime = new Date().toISOString();
+			const content = await vault.readBinary(note);
+			const id = await catchSyncError(t, "upload", note.path, () => {
+				assertParentCreated(note.path);
+				return t.drive.uploadFile(
+					new Blob([content]),
 					note.name,
 					note.parent ? pathsToIds[note.parent.path] : undefined,
 					{
-						properties: { path: note.path },
-						modifiedTime: new Date().toISOString(),
+						properties: { path: note.path, device },
+						modifiedTime,
+					},
+					{
+						onProgress: showUploadProgress(
+							getSyncMessage(33, 66, completed, files.length),
+							note.path
+						),
 					}
 				);
-				if (!id) {
-					return new Notice(
-						"An error occurred creating Google Drive files."
-					);
-				}
+			});
+			if (!id) return;
 
-				completed++;
-				syncNotice.setMessage(
-					getSyncMessage(33, 66, completed, files.length)
-				);
+			completed++;
+			syncNotice.setMessage(
+				getSyncMessage(33, 66, completed, files.length)
+			);
+
+			logUpload(t, note.path, content.byteLength);
+			t.settings.driveIdToPath[id] = note.path;
+			await setFileState(t, note.path, {
+				modifiedTime,
+				md5: md5(content),
+			});
+			await writeBase(t, note.path, content);
+		})
+	);
 
-				t.settings.driveIdToPath[id] = note.path;
-			})
-		);
-	}
 
 	if (modifies.length) {
 		let completed = 0;
@@ -499,16 +655,30 @@ export const push = async (t: ObsidianGoogleDrive) => {
 
 		await batchAsyncs(
 			files.map((file) => async () => {
-				const id = await t.drive.updateFile(
-					pathToId[file.path],
-					new Blob([await vault.readBinary(file)]),
-					{ modifiedTime: new Date().toISOString() }
+				const modifiedTime = new Date().toISOString();
+				const content = await vault.readBinary(file);
+				const id = await catchSyncError(t, "update", file.path, () =>
+					t.drive.updateFile(
+						pathToId[file.path],
+						new Blob([content]),
+						{ properties: { device }, modifiedTime },
+						{
+							path: file.path,
+							onProgress: showUploadProgress(
+								getSyncMessage(66, 99, completed, files.length),
+								file.path
+							),
+						}
+					)
 				);
-				if (!id) {
-					return new Notice(
-						"An error occurred modifying Google Drive files."
-					);
-				}
+				if (!id) return;
+
+				logUpload(t, file.path, content.byteLength);
+				await setFileState(t, file.path, {
+					modifiedTime,
+					md5: md5(content),
+				});
+				await writeBase(t, file.path, content);
 
 				completed++;
 				syncNotice.setMessage(
@@ -519,9 +689,27 @@ export const push = async (t: ObsidianGoogleDrive) => {
 	}
 
 	const configFilesToSync = await t.drive.getConfigFilesToSync();
+	// Left out of the vault index, so they are read through the adapter like the configuration, though synced like any other file
+	const hiddenFiles = (
+		await Promise.all(
+			[...creates, ...modifies].map(async ([path]) =>
+				!vault.getAbstractFileByPath(path) &&
+				(await adapter.stat(path))?.type === "file"
+					? path
+					: undefined
+			)
+		)
+	).filter(Boolean) as string[];
+	const adapterFiles = [...configFilesToSync, ...hiddenFiles];
+	const configProperty = (path: string): Record<string, string> =>
+		configFilesToSync.includes(path) ||
+		path === vault.configDir ||
+		path.startsWith(vault.configDir + "/")
+			? { config: "true" }
+			: {};
 
 	const foldersToCreate = new Set<string>();
-	configFilesToSync.forEach((path) => {
+	adapterFiles.forEach((path) => {
 		const parts = path.split("/");
 		for (let i = 1; i < parts.length; i++) {
 			foldersToCreate.add(parts.slice(0, i).join("/"));
@@ -538,19 +726,26 @@ export const push = async (t: ObsidianGoogleDrive) => {
 		for (const batch of batches) {
 			await batchAsyncs(
 				batch.map((folder) => async () => {
-					const id = await t.drive.createFolder({
-						name: folder.split("/").pop() || "",
-						parent: pathsToIds[
-							folder.split("/").slice(0, -1).join("/")
-						],
-						properties: { path: folder, config: "true" },
-						modifiedTime: new Date().toISOString(),
-					});
-					if (!id) {
-						return new Notice(
-							"An error occurred creating Google Drive folders."
-						);
-					}
+					const id = await catchSyncError(
+						t,
+						"createFolder",
+						folder,
+						() => {
+							assertParentCreated(folder);
+							return t.drive.createFolder({
+								name: folder.split("/").pop() || "",
+								parent: pathsToIds[
+									folder.split("/").slice(0, -1).join("/")
+								],
+								properties: {
+									path: folder,
+									...configProperty(folder),
+								},
+								modifiedTime: new Date().toISOString(),
+							});
+						}
+					);
+					if (!id) return;
 
 					t.settings.driveIdToPath[id] = folder;
 					pathsToIds[folder] = id;
@@ -560,45 +755,69 @@ export const push = async (t: ObsidianGoogleDrive) => {
 	}
 
 	await batchAsyncs(
-		configFilesToSync.map((path) => async () => {
+		adapterFiles.map((path) => async () => {
+			const content = await adapter.readBinary(path);
+			const hash = md5(content);
+			const modifiedTime = new Date().toISOString();
+
 			if (pathsToIds[path]) {
-				await t.drive.updateFile(
-					pathsToIds[path],
-					new Blob([await adapter.readBinary(path)]),
-					{ modifiedTime: new Date().toISOString() }
+				if (t.settings.fileStates[path]?.md5 === hash) return;
+				const id = await catchSyncError(t, "update", path, () =>
+					t.drive.updateFile(
+						pathsToIds[path],
+						new Blob([content]),
+						{ modifiedTime },
+						{ path }
+					)
 				);
+				if (id) {
+					logUpload(t, path, content.byteLength);
+					await setFileState(t, path, { modifiedTime, md5: hash });
+				}
 				return;
 			}
 
-			const id = await t.drive.uploadFile(
-				new Blob([await adapter.readBinary(path)]),
-				fileNameFromPath(path),
-				pathsToIds[path.split("/").slice(0, -1).join("/")],
-				{
-					properties: { path, config: "true" },
-					modifiedTime: new Date().toISOString(),
-				}
-			);
-			if (!id) {
-				return new Notice(
-					"An error occurred creating Google Drive config files."
+			const id = await catchSyncError(t, "upload", path, () => {
+				assertParentCreated(path);
+				return t.drive.uploadFile(
+					new Blob([content]),
+					fileNameFromPath(path),
+					pathsToIds[path.split("/").slice(0, -1).join("/")],
+					{
+						properties: { path, ...configProperty(path) },
+						modifiedTime,
+					}
 				);
-			}
+			});
+			if (!id) return;
 
+			logUpload(t, path, content.byteLength);
 			t.settings.driveIdToPath[id] = path;
+			await setFileState(t, path, { modifiedTime, md5: hash });
 			pathsToIds[path] = id;
 		})
 	);
 
-	await t.drive.updateFile(
-		pathsToIds[vault.configDir + "/plugins/google-drive-sync/data.json"],
-		new Blob([JSON.stringify(t.settings, null, 2)]),
-		{ modifiedTime: new Date().toISOString() }
+	const settingsPath = vault.configDir + "/plugins/google-drive-sync/data.json";
+	await catchSyncError(t, "update", settingsPath, () =>
+		t.drive.updateFile(
+			pathsToIds[settingsPath],
+			new Blob([JSON.stringify(t.settings, null, 2)]),
+			{ modifiedTime: new Date().toISOString() }
+		)
 	);
 
-	t.settings.operations = {};
+	t.syncErrors.forEach(({ path }) => path && failedPaths.add(path));
+	t.settings.operations = Object.fromEntries(
+		Object.entries(t.settings.operations).filter(
+			([path, op]) =>
+				failedPaths.has(path) ||
+				!isSelected(path) ||
+				(auto && op === "delete")
+		)
+	);
 
 	await t.endSync(syncNotice, false);
 
-	new Notice("Sync complete!");
+	if (!auto) new Notice("Sync complete!");
 };
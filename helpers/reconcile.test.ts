@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { createPlugin } from "../__mocks__/plugin";
+import { FileMetadata, folderMimeType, md5 } from "./drive";
+import { parseIgnoreRules } from "./ignore";
+import { compareVault } from "./reconcile";
+
+const remoteFile = (
+	path: string,
+	content?: string,
+	mimeType = "text/markdown",
+	properties: Record<string, string> = {}
+): FileMetadata => ({
+	id: path,
+	name: path.split("/").pop() || "",
+	description: "",
+	starred: false,
+	mimeType: content === undefined ? folderMimeType : mimeType,
+	modifiedTime: "",
+	md5Checksum:
+		content === undefined
+			? undefined
+			: md5(new TextEncoder().encode(content).buffer),
+	properties: { path, ...properties },
+});
+
+describe("compareVault", () => {
+	it("sorts every file by how it differs from Google Drive", async () => {
+		const t = createPlugin({
+			files: {
+				"same.md": "same",
+				"Local/only.md": "local",
+				"changed.md": "local",
+				".obsidian/app.json": "{}",
+			},
+			drive: {
+				searchFiles: async () => [
+					remoteFile("same.md", "same"),
+					remoteFile("changed.md", "remote"),
+					remoteFile("Remote"),
+					remoteFile("Remote/only.md", "remote"),
+					remoteFile(".obsidian/app.json", "{}", "application/json", {
+						config: "true",
+					}),
+				],
+			},
+		});
+
+		const { files, localFolders, remote } = await compareVault(t);
+
+		expect(files).toEqual({
+			identical: ["same.md"],
+			localOnly: ["Local/only.md"],
+			remoteOnly: ["Remote/only.md"],
+			differing: ["changed.md"],
+		});
+		// The configuration is synced separately
+		expect(localFolders).toEqual(["Local"]);
+		expect(Object.keys(remote).sort()).toEqual([
+			"Remote",
+			"Remote/only.md",
+			"changed.md",
+			"same.md",
+		]);
+	});
+
+	it("lists Google Docs and ignored files apart, so that their folders are kept", async () => {
+		const t = createPlugin({
+			drive: {
+				searchFiles: async () => [
+					remoteFile("Docs"),
+					remoteFile(
+						"Docs/Plan",
+						"",
+						"application/vnd.google-apps.document"
+					),
+					remoteFile("Docs/.DS_Store", ""),
+				],
+			},
+		});
+		t.ignoreRules = parseIgnoreRules(".DS_Store");
+
+		const { files, remote, unlisted } = await compareVault(t);
+
+		expect(files.remoteOnly).toEqual([]);
+		expect(Object.keys(remote)).toEqual(["Docs"]);
+		expect(unlisted).toEqual(["Docs/Plan", "Docs/.DS_Store"]);
+	});
+});
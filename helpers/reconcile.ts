@@ -0,0 +1,458 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, Notice, Setting } from "obsidian";
+import { logDeletion, logDownload } from "./activity";
+import { saveConflictCopy, showConflictsNotice } from "./conflicts";
+import {
+	batchAsyncs,
+	FileMetadata,
+	folderMimeType,
+	foldersToBatches,
+	getSyncMessage,
+	md5,
+} from "./drive";
+import { catchSyncError } from "./errors";
+import { IGNORE_FILE } from "./ignore";
+import { writeBase } from "./merge";
+import { setFileState } from "./scan";
+import { ensureVaultId } from "./vault";
+
+type FileClass = "identical" | "localOnly" | "remoteOnly" | "differing";
+
+type Policy =
+	| "link"
+	| "upload"
+	| "deleteLocal"
+	| "download"
+	| "deleteRemote"
+	| "keepBoth"
+	| "keepLocal"
+	| "keepRemote";
+
+const CLASSES: Record<
+	FileClass,
+	{ name: string; policies: Partial<Record<Policy, string>> }
+> = {
+	identical: {
+		name: "The same on both sides",
+		policies: { link: "Keep" },
+	},
+	localOnly: {
+		name: "Only in the vault",
+		policies: { upload: "Upload", deleteLocal: "Delete from the vault" },
+	},
+	remoteOnly: {
+		name: "Only on Google Drive",
+		policies: {
+			download: "Download",
+			deleteRemote: "Move to the Google Drive trash",
+		},
+	},
+	differing: {
+		name: "Different on each side",
+		policies: {
+			keepBoth: "Keep both, with a conflict copy",
+			keepLocal: "Keep the vault version",
+			keepRemote: "Keep the Google Drive version",
+		},
+	},
+};
+
+interface Comparison {
+	files: Record<FileClass, string[]>;
+	localFolders: string[];
+	/**
+	 * Everything synced from this vault on Google Drive, keyed by path
+	 */
+	remote: Record<string, FileMetadata>;
+	/**
+	 * Files on Google Drive that are not compared, e.g. Google Docs or ignored files, whose folders must be kept
+	 */
+	unlisted: string[];
+}
+
+const listLocal = async (t: ObsidianGoogleDrive) => {
+	const { vault } = t.app;
+	const files: string[] = [];
+	const folders: string[] = [];
+
+	const list = async (folder: string) => {
+		const listed = await vault.adapter.list(folder);
+		files.push(...listed.files);
+		for (const path of listed.folders) {
+			// Configuration is synced separately, and as a whole
+			if (path === vault.configDir) continue;
+			folders.push(path);
+			await list(path);
+		}
+	};
+	await list("");
+
+	return {
+		files: files.filter(
+			(path) =>
+				path !== IGNORE_FILE &&
+				!t.settings.nativeExports[path] &&
+				t.shouldSyncFile(path)
+		),
+		folders: folders.filter((path) => t.shouldSyncFile(path, true)),
+	};
+};
+
+/**
+ * Matches every file in the vault with the one at the same path on Google Drive, comparing their content
+ */
+export const compareVault = async (
+	t: ObsidianGoogleDrive
+): Promise<Comparison> => {
+	const { adapter } = t.app.vault;
+	const local = await listLocal(t);
+	const remoteFiles = await t.drive.searchFiles({
+		include: [
+			"id",
+			"mimeType",
+			"properties",
+			"modifiedTime",
+			"md5Checksum",
+		],
+		matches: [{ properties: { vaultId: t.settings.vaultId } }],
+	});
+
+	const remote: Record<string, FileMetadata> = {};
+	const unlisted: string[] = [];
+	remoteFiles.forEach((file) => {
+		const { mimeType, properties } = file;
+		if (!properties?.path || properties.config) return;
+		const isFolder = mimeType === folderMimeType;
+		const isNative =
+			!isFolder && mimeType.startsWith("application/vnd.google-apps.");
+		if (
+			// Google Docs and the like are exported on the next pull instead
+			!isNative &&
+			t.shouldSyncFile(properties.path, isFolder)
+		) {
+			remote[properties.path] = file;
+		} else {
+			unlisted.push(properties.path);
+		}
+	});
+
+	const files: Record<FileClass, string[]> = {
+		identical: [],
+		localOnly: [],
+		remoteOnly: [],
+		differing: [],
+	};
+	for (const path of local.files) {
+		const file = remote[path];
+		if (!file || file.mimeType === folderMimeType) {
+			files.localOnly.push(path);
+		} else if (md5(await adapter.readBinary(path)) === file.md5Checksum) {
+			files.identical.push(path);
+		} else {
+			files.differing.push(path);
+		}
+	}
+	const localFiles = new Set(local.files);
+	const localFolders = new Set(local.folders);
+	Object.values(remote).forEach(({ mimeType, properties: { path } }) => {
+		if (mimeType === folderMimeType || localFiles.has(path)) return;
+		if (!localFolders.has(path)) files.remoteOnly.push(path);
+	});
+	Object.values(files).forEach((paths) => paths.sort());
+
+	return { files, localFolders: local.folders, remote, unlisted };
+};
+
+class ReconcileModal extends Modal {
+	policies: Record<FileClass, Policy> = {
+		identical: "link",
+		localOnly: "upload",
+		remoteOnly: "download",
+		differing: "keepBoth",
+	};
+	proceed: (policies?: Record<FileClass, Policy>) => void;
+	confirmed = false;
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		{ files }: Comparison,
+		proceed: (policies?: Record<FileClass, Policy>) => void
+	) {
+		super(t.app);
+		this.proceed = proceed;
+		const { contentEl } = this;
+
+		this.setTitle("Reconcile the vault with Google Drive");
+		contentEl
+			.createEl("p")
+			.setText(
+				"Both this vault and Google Drive already have files. Choose what to do with each kind of file before syncing for the first time:"
+			);
+
+		(Object.keys(CLASSES) as FileClass[]).forEach((fileClass) => {
+			const paths = files[fileClass];
+			if (!paths.length) return;
+			const { name, policies } = CLASSES[fileClass];
+
+			new Setting(contentEl)
+				.setName(`${name} (${paths.length})`)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(policies as Record<string, string>)
+						.setValue(this.policies[fileClass])
+						.onChange(
+							(value) =>
+								(this.policies[fileClass] = value as Policy)
+						)
+				);
+
+			const details = contentEl.createEl("details");
+			details.createEl("summary").setText("Show files");
+			const list = details.createEl("ul");
+			paths.forEach((path) =>
+				list.createEl("li", { cls: "operation-file" }).setText(path)
+			);
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Reconcile")
+					.setCta()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		this.proceed(this.confirmed ? this.policies : undefined);
+	}
+}
+
+class ConfirmDeletionModal extends Modal {
+	proceed: (res: boolean) => void;
+	confirmed = false;
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		paths: string[],
+		proceed: (res: boolean) => void
+	) {
+		super(t.app);
+		this.proceed = proceed;
+
+		this.setTitle("Delete from the vault");
+		this.contentEl
+			.createEl("p")
+			.setText(
+				`Are you sure you want to move these ${paths.length} file(s) to the trash? They are not on Google Drive, so they can only be restored from the trash on this device.`
+			);
+		const list = this.contentEl.createEl("ul");
+		paths.forEach((path) =>
+			list.createEl("li", { cls: "operation-file" }).setText(path)
+		);
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Delete")
+					.setWarning()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		this.proceed(this.confirmed);
+	}
+}
+
+/**
+ * Sets up syncing for a vault that already has files when Google Drive does too, instead of treating either side as empty
+ *
+ * @returns Whether the vault was reconciled, rather than cancelled
+ */
+export const reconcileVault = async (t: ObsidianGoogleDrive) => {
+	if (t.syncing) return false;
+	const { vault } = t.app;
+	const { adapter } = vault;
+
+	const notice = new Notice("Comparing the vault with Google Drive...", 0);
+	let comparison: Comparison;
+	try {
+		await ensureVaultId(t);
+		comparison = await compareVault(t);
+	} finally {
+		notice.hide();
+	}
+
+	const policies = await new Promise<
+		Record<FileClass, Policy> | undefined
+	>((resolve) => new ReconcileModal(t, comparison, resolve).open());
+	if (!policies) return false;
+
+	const { files, localFolders, remote, unlisted } = comparison;
+	if (policies.localOnly === "deleteLocal" && files.localOnly.length) {
+		const confirmed = await new Promise<boolean>((resolve) =>
+			new ConfirmDeletionModal(t, files.localOnly, resolve).open()
+		);
+		if (!confirmed) return false;
+	}
+
+	const syncNotice = await t.startSync("reconcile");
+	const { settings } = t;
+
+	// Changes recorded so far are replaced by what the user chose
+	settings.operations = {};
+	settings.renames = {};
+
+	/**
+	 * @param localMatches Whether the local copy holds the same content as on Google Drive
+	 */
+	const link = async (path: string, localMatches = true) => {
+		const file = remote[path];
+		settings.driveIdToPath[file.id] = path;
+		if (file.mimeType !== folderMimeType) {
+			await setFileState(
+				t,
+				path,
+				{ modifiedTime: file.modifiedTime, md5: file.md5Checksum },
+				localMatches
+			);
+		}
+	};
+
+	for (const path of localFolders) {
+		if (remote[path]?.mimeType === folderMimeType) await link(path);
+	}
+	for (const path of files.identical) await link(path);
+
+	if (policies.localOnly === "upload") {
+		localFolders.forEach((path) => {
+			if (!remote[path]) settings.operations[path] = "create";
+		});
+		files.localOnly.forEach(
+			(path) => (settings.operations[path] = "create")
+		);
+	} else {
+		const device = t.getDeviceName();
+		for (const path of files.localOnly) {
+			const file = vault.getAbstractFileByPath(path);
+			// Hidden files are not tracked by the vault, but can still be trashed
+			if (file) await t.deleteFile(file);
+			else if (!(await adapter.trashSystem(path))) {
+				await adapter.trashLocal(path);
+			}
+			logDeletion(t, { path, from: "vault", by: device });
+		}
+	}
+
+	const download = async (path: string) => {
+		const file = remote[path];
+		const content = await t.drive.getFile(file.id, path);
+		logDownload(t, path, content.byteLength);
+		await t.upsertFile(path, content, file.modifiedTime);
+		await link(path);
+		await writeBase(t, path, content);
+	};
+
+	// Folders only on Google Drive hold nothing but files only on Google Drive
+	const remoteFolders = Object.values(remote)
+		.filter(
+			({ mimeType, properties: { path } }) =>
+				mimeType === folderMimeType && !localFolders.includes(path)
+		)
+		.map(({ properties }) => properties.path);
+
+	if (policies.remoteOnly === "download") {
+		for (const batch of foldersToBatches(remoteFolders)) {
+			await Promise.all(
+				batch.map(async (path) => {
+					if (!(await adapter.exists(path))) {
+						await t.createFolder(path);
+					}
+					await link(path);
+				})
+			);
+		}
+	} else {
+		// Folders holding anything that was not listed are kept, so that it isn't trashed along with them
+		const paths = [
+			...remoteFolders.filter(
+				(folder) =>
+					!unlisted.some((path) => path.startsWith(folder + "/"))
+			),
+			...files.remoteOnly,
+		];
+		await catchSyncError(t, "delete", undefined, async () => {
+			await t.drive.batchTrash(
+				paths.map((path) => remote[path].id),
+				t.getDeviceName()
+			);
+			paths.forEach((path) =>
+				logDeletion(t, { path, from: "drive", by: t.getDeviceName() })
+			);
+		});
+	}
+
+	syncNotice.setMessage("Syncing (50%)");
+
+	const downloads = [
+		...(policies.remoteOnly === "download" ? files.remoteOnly : []),
+		...(policies.differing === "keepRemote" ? files.differing : []),
+	];
+	let completed = 0;
+	await batchAsyncs(
+		downloads.map((path) => () =>
+			catchSyncError(t, "download", path, async () => {
+				await download(path);
+				completed++;
+				syncNotice.setMessage(
+					getSyncMessage(50, 99, completed, downloads.length)
+				);
+			})
+		)
+	);
+
+	const conflictCopies: string[] = [];
+	if (policies.differing !== "keepRemote") {
+		await batchAsyncs(
+			files.differing.map((path) => () =>
+				catchSyncError(t, "download", path, async () => {
+					if (policies.differing === "keepBoth") {
+						const file = remote[path];
+						const content = await t.drive.getFile(file.id, path);
+						logDownload(t, path, content.byteLength);
+						conflictCopies.push(
+							await saveConflictCopy(t, file, content)
+						);
+					}
+					// Pushed over the Google Drive version, which counts as already pulled
+					await link(path, false);
+					settings.operations[path] = "modify";
+				})
+			)
+		);
+	}
+
+	await t.endSync(syncNotice);
+
+	if (conflictCopies.length) showConflictsNotice(conflictCopies);
+	const pending = Object.keys(settings.operations).length;
+	new Notice(
+		pending
+			? `The vault is reconciled with Google Drive. Push to upload the ${pending} remaining changes.`
+			: "The vault is reconciled with Google Drive."
+	);
+	return true;
+};
@@ -1,4 +1,5 @@
 import ObsidianGoogleDrive from "main";
+import { logDeletion, logDownload } from "./activity";
 import {
 	batchAsyncs,
 	folderMimeType,
@@ -6,17 +7,51 @@ import {
 	getSyncMessage,
 } from "./drive";
 import { Notice, TAbstractFile, TFile, TFolder } from "obsidian";
+import { catchSyncError } from "./errors";
+import { checkPlan, SyncPlan } from "./plan";
 import { pull } from "./pull";
 
-export const reset = async (t: ObsidianGoogleDrive) => {
+/**
+ * @param plan A reviewed plan, which stops the reset if it no longer holds
+ */
+export const reset = async (t: ObsidianGoogleDrive, plan?: SyncPlan) => {
 	if (t.syncing) return;
 
-	const syncNotice = await t.startSync();
+	const syncNotice = await t.startSync("reset");
+
+	if (plan) await checkPlan(t, plan);
 
 	await pull(t, true);
 
 	const { vault } = t.app;
 
+	// Looked up by their path on Google Drive, since moving a folder back also moves the renamed files inside it
+	const drivePaths = Object.values(t.settings.renames).sort(
+		(a, b) => a.split("/").length - b.split("/").length
+	);
+
+	for (const drivePath of drivePaths) {
+		const path = Object.keys(t.settings.renames).find(
+			(path) => t.settings.renames[path] === drivePath
+		);
+		const file = path && vault.getAbstractFileByPath(path);
+		if (!file) continue;
+
+		await catchSyncError(t, "rename", path, async () => {
+			const parent = drivePath.split("/").slice(0, -1).join("/");
+			if (
+				(await vault.adapter.exists(drivePath)) ||
+				(parent && !vault.getFolderByPath(parent))
+			) {
+				throw new Error(
+					`${drivePath} is taken or its folder no longer exists.`
+				);
+			}
+			// Moving it back turns the rename into a modification, which is then reset below
+			await vault.rename(file, drivePath);
+		});
+	}
+
 	const operations = Object.entries(t.settings.operations);
 	const deletes = operations.filter(([_, op]) => op === "delete");
 	const creates = operations.filter(([_, op]) => op === "create");
@@ -27,12 +62,13 @@ export const reset = async (t: ObsidianGoogleDrive) => {
 	);
 
 	if (creates.length) {
-		await t.drive.deleteFilesMinimumOperations(
-			creates
-				.map(([path]) => vault.getAbstractFileByPath(path))
-				.filter(
-					(file) => file instanceof TAbstractFile
-				) as TAbstractFile[]
+		const files = creates
+			.map(([path]) => vault.getAbstractFileByPath(path))
+			.filter((file) => file instanceof TAbstractFile) as TAbstractFile[];
+		await t.drive.deleteFilesMinimumOperations(files);
+		const device = t.getDeviceName();
+		files.forEach(({ path }) =>
+			logDeletion(t, { path, from: "vault", by: device })
 		);
 	}
 
@@ -44,23 +80,28 @@ export const reset = async (t: ObsidianGoogleDrive) => {
 			vault.getFileByPath(path)
 		) as TFile[];
 		await batchAsyncs(
-			files.map((file) => async () => {
-				const [onlineFile, metadata] = await Promise.all([
-					t.drive.getFile(filePathToId[file.path]).arrayBuffer(),
-					t.drive.getFileMetadata(filePathToId[file.path]),
-				]);
-				if (!onlineFile || !metadata) {
-					return new Notice(
-						"An error occurred fetching Google Drive files."
+			files.map((file) => () =>
+				catchSyncError(t, "download", file.path, async () => {
+					const [onlineFile, metadata] = await Promise.all([
+						t.drive.getFile(filePathToId[file.path], file.path),
+						t.drive.getFileMetadata(
+							filePathToId[file.path],
+							file.path
+						),
+					]);
+
+					logDownload(t, file.path, onlineFile.byteLength);
+					completed++;
+					syncNotice.setMessage(
+						getSyncMessage(33, 66, completed, files.length)
 					);
-				}
-
-				completed++;
-				syncNotice.setMessage(
-					getSyncMessage(33, 66, completed, files.length)
-				);
-				return t.modifyFile(file, onlineFile, metadata.modifiedTime);
-			})
+					return t.modifyFile(
+						file,
+						onlineFile,
+						metadata.modifiedTime
+					);
+				})
+			)
 		);
 	}
 
@@ -69,9 +110,6 @@ export const reset = async (t: ObsidianGoogleDrive) => {
 			include: ["id", "mimeType", "properties", "modifiedTime"],
 			matches: deletes.map(([path]) => ({ properties: { path } })),
 		});
-		if (!files) {
-			return new Notice("An error occurred fetching Google Drive files.");
-		}
 
 		const pathToFile = Object.fromEntries(
 			files.map((file) => [file.properties.path, file])
@@ -100,29 +138,34 @@ export const reset = async (t: ObsidianGoogleDrive) => {
 		);
 
 		await batchAsyncs(
-			deletedFiles.map(([path]) => async () => {
-				const onlineFile = await t.drive
-					.getFile(filePathToId[path])
-					.arrayBuffer();
-				if (!onlineFile) {
-					return new Notice(
-						"An error occurred fetching Google Drive files."
+			deletedFiles.map(([path]) => () =>
+				catchSyncError(t, "download", path, async () => {
+					const onlineFile = await t.drive.getFile(
+						filePathToId[path],
+						path
 					);
-				}
-				completed++;
-				syncNotice.setMessage(
-					getSyncMessage(66, 99, completed, deletedFiles.length)
-				);
-				return t.createFile(
-					path,
-					onlineFile,
-					pathToFile[path].modifiedTime
-				);
-			})
+					logDownload(t, path, onlineFile.byteLength);
+					completed++;
+					syncNotice.setMessage(
+						getSyncMessage(66, 99, completed, deletedFiles.length)
+					);
+					return t.createFile(
+						path,
+						onlineFile,
+						pathToFile[path].modifiedTime
+					);
+				})
+			)
 		);
 	}
 
-	t.settings.operations = {};
+	// Files that could not be restored keep their operation, so resetting again retries them
+	const failedPaths = new Set(t.syncErrors.map(({ path }) => path));
+	t.settings.operations = Object.fromEntries(
+		Object.entries(t.settings.operations).filter(([path]) =>
+			failedPaths.has(path)
+		)
+	);
 
 	await t.endSync(syncNotice);
 
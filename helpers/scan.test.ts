@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { createPlugin, MTIME } from "../__mocks__/plugin";
+import { md5 } from "./drive";
+import { scanVault } from "./scan";
+
+const stateOf = (text: string) => {
+	const content = new TextEncoder().encode(text).buffer;
+	return {
+		modifiedTime: "",
+		md5: md5(content),
+		size: content.byteLength,
+		mtime: MTIME,
+	};
+};
+
+describe("scanVault", () => {
+	it("leaves synced files that are unchanged alone", async () => {
+		const files = {
+			"Notes/a.md": "a",
+			".obsidian/app.json": "{}",
+			".hidden.md": "hidden",
+			"Notes/.nested": "nested",
+		};
+		const t = createPlugin({
+			files,
+			settings: {
+				driveIdToPath: {
+					notes: "Notes",
+					a: "Notes/a.md",
+					config: ".obsidian",
+					app: ".obsidian/app.json",
+					hidden: ".hidden.md",
+					nested: "Notes/.nested",
+				},
+				fileStates: Object.fromEntries(
+					Object.entries(files).map(([path, text]) => [
+						path,
+						stateOf(text),
+					])
+				),
+			},
+		});
+
+		expect(await scanVault(t)).toBe(0);
+		expect(t.settings.operations).toEqual({});
+		expect(t.saveSettings).not.toHaveBeenCalled();
+	});
+
+	it("queues files changed or created outside Obsidian, including hidden ones", async () => {
+		const t = createPlugin({
+			files: {
+				"a.md": "changed",
+				"b.md": "new",
+				".hidden.md": "changed",
+				"Notes/.new": "new",
+				".obsidian/app.json": "{}",
+			},
+			settings: {
+				driveIdToPath: { a: "a.md", hidden: ".hidden.md" },
+				fileStates: {
+					"a.md": stateOf("a"),
+					".hidden.md": stateOf("hidden"),
+				},
+			},
+		});
+
+		expect(await scanVault(t)).toBe(5);
+		// The configuration is compared when pushing instead
+		expect(t.settings.operations).toEqual({
+			"a.md": "modify",
+			"b.md": "create",
+			Notes: "create",
+			".hidden.md": "modify",
+			"Notes/.new": "create",
+		});
+	});
+
+	it("queues deletions, but never of hidden files or the configuration", async () => {
+		const t = createPlugin({
+			settings: {
+				driveIdToPath: {
+					a: "a.md",
+					folder: "Folder",
+					b: "Folder/b.md",
+					config: ".obsidian",
+					hidden: ".hidden.md",
+				},
+				fileStates: {
+					"a.md": stateOf("a"),
+					"Folder/b.md": stateOf("b"),
+					".hidden.md": stateOf("hidden"),
+				},
+			},
+		});
+
+		await scanVault(t);
+		expect(t.settings.operations).toEqual({
+			"a.md": "delete",
+			Folder: "delete",
+			"Folder/b.md": "delete",
+		});
+	});
+
+	it("queues into a copy without saving anything", async () => {
+		const t = createPlugin({
+			files: { "a.md": "a", "b.md": "b" },
+			settings: {
+				driveIdToPath: { a: "a.md" },
+				fileStates: { "a.md": { ...stateOf("a"), mtime: 0 } },
+			},
+		});
+		const operations = {};
+
+		expect(await scanVault(t, operations)).toBe(1);
+		expect(operations).toEqual({ "b.md": "create" });
+		expect(t.settings.operations).toEqual({});
+		expect(t.settings.fileStates["a.md"].mtime).toBe(0);
+		expect(t.saveSettings).not.toHaveBeenCalled();
+	});
+});
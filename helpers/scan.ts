@@ -0,0 +1,162 @@
+import ObsidianGoogleDrive, { FileState } from "main";
+import { Notice, TFile, TFolder } from "obsidian";
+import { md5 } from "./drive";
+import { IGNORE_FILE } from "./ignore";
+
+/**
+ * Records what a file holds on Google Drive after syncing it, along with the size and modification time of its local copy, so that scans can trust the file without reading it
+ *
+ * @param localMatches Whether the local copy holds the same content, e.g. not after keeping a local edit that is still to be pushed
+ */
+export const setFileState = async (
+	t: ObsidianGoogleDrive,
+	path: string,
+	state: Omit<FileState, "size" | "mtime">,
+	localMatches = true
+) => {
+	const stat = localMatches ? await t.app.vault.adapter.stat(path) : null;
+	t.settings.fileStates[path] = stat
+		? { ...state, size: stat.size, mtime: stat.mtime }
+		: state;
+};
+
+const isHidden = (path: string) =>
+	path.split("/").some((name) => name.startsWith("."));
+
+/**
+ * Lists the hidden files that the vault index leaves out, apart from the configuration
+ */
+const listHiddenFiles = async (t: ObsidianGoogleDrive) => {
+	const { vault } = t.app;
+	const files: string[] = [];
+
+	const list = async (folder: string) => {
+		const listed = await vault.adapter.list(folder);
+		files.push(...listed.files.filter(isHidden));
+		for (const path of listed.folders) {
+			if (path !== vault.configDir) await list(path);
+		}
+	};
+	await list("");
+
+	return files;
+};
+
+/**
+ * Compares the vault with what it held after the last sync, queueing whatever changed while the plugin was not watching, e.g. edits by git, other editors or scripts, or while it was disabled
+ *
+ * Files whose size and modification time are unchanged are trusted without reading them, and the rest are only queued if their content differs from the last sync.
+ *
+ * @param operations Where to queue the changes. Given a copy of the pending operations, e.g. to plan a push, nothing is saved
+ * @returns How many operations were queued
+ */
+export const scanVault = async (
+	t: ObsidianGoogleDrive,
+	operations = t.settings.operations
+) => {
+	const { vault } = t.app;
+	const { adapter } = vault;
+	const { fileStates, driveIdToPath, nativeExports } = t.settings;
+	const persist = operations === t.settings.operations;
+
+	const syncedPaths = new Set(Object.values(driveIdToPath));
+	// The configuration and the ignore file are compared when pushing instead
+	const isTracked = (path: string, isFolder = false) =>
+		path !== IGNORE_FILE &&
+		path !== vault.configDir &&
+		!path.startsWith(vault.configDir + "/") &&
+		!operations[path] &&
+		!nativeExports[path] &&
+		t.shouldSyncFile(path, isFolder);
+
+	// Obsidian doesn't index hidden files, so they are listed through the adapter. Their folders are created along with them
+	const hiddenFiles = await listHiddenFiles(t);
+	const entries: {
+		path: string;
+		isFolder: boolean;
+		stat?: { size: number; mtime: number };
+	}[] = [
+		...vault
+			.getAllLoadedFiles()
+			.filter((file) => !(file instanceof TFolder && file.isRoot()))
+			.map((file) => ({
+				path: file.path,
+				isFolder: file instanceof TFolder,
+				stat: file instanceof TFile ? file.stat : undefined,
+			})),
+		...hiddenFiles.map((path) => ({ path, isFolder: false })),
+	];
+
+	let queued = 0;
+	let statesChanged = false;
+
+	for (const { path, isFolder, stat: indexed } of entries) {
+		if (!isTracked(path, isFolder)) continue;
+
+		const state = fileStates[path];
+		if (!state) {
+			// Synced before content was recorded, so it cannot be compared
+			if (syncedPaths.has(path)) continue;
+			operations[path] = "create";
+			queued++;
+			continue;
+		}
+		if (isFolder) continue;
+
+		const stat = indexed || (await adapter.stat(path));
+		if (!stat) continue;
+		const { size, mtime } = stat;
+		if (state.size === size && state.mtime === mtime) continue;
+
+		if (md5(await adapter.readBinary(path)) === state.md5) {
+			if (!persist) continue;
+			fileStates[path] = { ...state, size, mtime };
+			statesChanged = true;
+		} else {
+			operations[path] = "modify";
+			queued++;
+		}
+	}
+
+	// A synced folder is told apart by the synced paths inside it
+	const syncedFolders = new Set<string>();
+	syncedPaths.forEach((path) => {
+		const parts = path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			syncedFolders.add(parts.slice(0, i).join("/"));
+		}
+	});
+
+	for (const path of syncedPaths) {
+		// Like the configuration, hidden files are only ever added or updated by a scan, never deleted
+		if (isHidden(path) || (await adapter.exists(path))) continue;
+		// Anything that may be an empty folder is only deleted if it would be synced either way
+		const tracked =
+			syncedFolders.has(path) || fileStates[path]
+				? isTracked(path, syncedFolders.has(path))
+				: isTracked(path) && isTracked(path, true);
+		if (!tracked) continue;
+		operations[path] = "delete";
+		queued++;
+	}
+
+	if (!persist) return queued;
+	if (queued || statesChanged) await t.saveSettings();
+	if (queued) t.refreshSyncStatus();
+	return queued;
+};
+
+/**
+ * Runs a scan on request, reporting what it found
+ */
+export const scanVaultForChanges = async (t: ObsidianGoogleDrive) => {
+	if (t.syncing) {
+		return new Notice("Wait for the sync to finish before scanning.");
+	}
+	const queued = await scanVault(t);
+	new Notice(
+		queued
+			? `Found ${queued} change(s) made outside Obsidian. Push to sync them.`
+			: "No changes were made outside Obsidian."
+	);
+};
@@ -0,0 +1,231 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, Notice, Setting } from "obsidian";
+import { folderMimeType, formatBytes } from "./drive";
+import { describeError, DriveError } from "./errors";
+
+/**
+ * Stored in local storage rather than the settings, so that every device chooses its own folders
+ */
+const EXCLUDED_FOLDERS_KEY = "google-drive-sync-excluded-folders";
+/**
+ * Folders synced again since the last pull, whose files are downloaded whenever they last changed
+ */
+const INCLUDED_FOLDERS_KEY = "google-drive-sync-included-folders";
+
+const loadFolders = (t: ObsidianGoogleDrive, key: string): string[] =>
+	(t.app as any).loadLocalStorage(key) || [];
+
+const saveFolders = (
+	t: ObsidianGoogleDrive,
+	key: string,
+	folders: string[]
+) => (t.app as any).saveLocalStorage(key, folders.length ? folders : null);
+
+const isInside = (path: string, folder: string) =>
+	path === folder || path.startsWith(folder + "/");
+
+export const loadExcludedFolders = (t: ObsidianGoogleDrive) => {
+	t.excludedFolders = loadFolders(t, EXCLUDED_FOLDERS_KEY);
+};
+
+export const isExcluded = (t: ObsidianGoogleDrive, path: string) =>
+	t.excludedFolders.some((folder) => isInside(path, folder));
+
+/**
+ * Folders that are no longer excluded are downloaded in full on the next pull
+ */
+export const setExcludedFolders = (
+	t: ObsidianGoogleDrive,
+	folders: string[]
+) => {
+	const included = [
+		...loadFolders(t, INCLUDED_FOLDERS_KEY),
+		...t.excludedFolders,
+	].filter(
+		(folder) => !folders.some((excluded) => isInside(folder, excluded))
+	);
+
+	t.excludedFolders = folders;
+	saveFolders(t, EXCLUDED_FOLDERS_KEY, folders);
+	saveFolders(t, INCLUDED_FOLDERS_KEY, included);
+};
+
+/**
+ * @returns Everything on Google Drive inside the folders synced again since the last pull
+ */
+export const findIncludedFiles = async (t: ObsidianGoogleDrive) => {
+	const included = loadFolders(t, INCLUDED_FOLDERS_KEY);
+	if (!included.length) return [];
+
+	const files = await t.drive.searchFiles({
+		include: [
+			"id",
+			"modifiedTime",
+			"properties",
+			"mimeType",
+			"md5Checksum",
+		],
+		matches: [{ properties: { vaultId: t.settings.vaultId } }],
+	});
+	return files.filter(
+		({ properties }) =>
+			properties?.path &&
+			included.some((folder) => isInside(properties.path, folder))
+	);
+};
+
+/**
+ * Called once a pull has downloaded the included folders
+ */
+export const clearIncludedFolders = (t: ObsidianGoogleDrive) =>
+	saveFolders(t, INCLUDED_FOLDERS_KEY, []);
+
+interface DriveFolder {
+	path: string;
+	name: string;
+	depth: number;
+	size: number;
+}
+
+class SelectiveSyncModal extends Modal {
+	folders: DriveFolder[];
+	excluded: Set<string>;
+	listEl: HTMLElement;
+	proceed: (excluded?: string[]) => void;
+	saved = false;
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		folders: DriveFolder[],
+		proceed: (excluded?: string[]) => void
+	) {
+		super(t.app);
+		this.folders = folders;
+		this.excluded = new Set(t.excludedFolders);
+		this.proceed = proceed;
+
+		this.setTitle("Folders on this device");
+		this.contentEl
+			.createEl("p")
+			.setText(
+				"Turn off the folders this device should not sync. They stay on Google Drive and on your other devices."
+			);
+		this.listEl = this.contentEl.createDiv();
+		this.render();
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => {
+						this.saved = true;
+						this.close();
+					})
+			);
+	}
+
+	render() {
+		const { listEl, excluded } = this;
+		listEl.empty();
+
+		if (!this.folders.length) {
+			listEl
+				.createEl("p")
+				.setText("There are no folders on Google Drive.");
+		}
+
+		this.folders
+			// Whatever is inside an excluded folder is excluded along with it
+			.filter(
+				({ path }) =>
+					!Array.from(excluded).some(
+						(folder) => folder !== path && isInside(path, folder)
+					)
+			)
+			.forEach(({ path, name, depth, size }) => {
+				const setting = new Setting(listEl)
+					.setName(name)
+					.setDesc(formatBytes(size))
+					.addToggle((toggle) =>
+						toggle
+							.setValue(!excluded.has(path))
+							.onChange((value) => {
+								if (value) {
+									excluded.delete(path);
+								} else {
+									excluded.forEach(
+										(folder) =>
+											isInside(folder, path) &&
+											excluded.delete(folder)
+									);
+									excluded.add(path);
+								}
+								this.render();
+							})
+					);
+				const { settingEl } = setting;
+				settingEl.addClass("selective-sync-folder");
+				settingEl.style.setProperty("--depth", String(depth));
+			});
+	}
+
+	onClose() {
+		this.proceed(
+			this.saved ? Array.from(this.excluded).sort() : undefined
+		);
+	}
+}
+
+/**
+ * Lets the user choose which folders on Google Drive this device syncs, seeing how large each one is
+ *
+ * @returns The folders to exclude
+ */
+export const pickExcludedFolders = async (t: ObsidianGoogleDrive) => {
+	let files;
+	try {
+		files = await t.drive.searchFiles({
+			include: ["mimeType", "properties", "size"],
+			matches: [{ properties: { vaultId: t.settings.vaultId } }],
+		});
+	} catch (e) {
+		new Notice(
+			`Could not list the folders: ${describeError(
+				DriveError.from(e, "list")
+			)}`
+		);
+		return;
+	}
+
+	// Configuration is synced as a whole, or not at all
+	const sizes: Record<string, number> = {};
+	files
+		.filter(({ properties }) => properties?.path && !properties.config)
+		.forEach(({ mimeType, properties, size }) => {
+			const parts = properties.path.split("/");
+			if (mimeType === folderMimeType) {
+				sizes[properties.path] = sizes[properties.path] || 0;
+			}
+			for (let i = 1; i < parts.length; i++) {
+				const folder = parts.slice(0, i).join("/");
+				sizes[folder] = (sizes[folder] || 0) + Number(size || 0);
+			}
+		});
+
+	const folders = Object.keys(sizes)
+		.sort()
+		.map((path) => ({
+			path,
+			name: path.split("/").pop() || path,
+			depth: path.split("/").length - 1,
+			size: sizes[path],
+		}));
+
+	return new Promise<string[] | undefined>((resolve) =>
+		new SelectiveSyncModal(t, folders, resolve).open()
+	);
+};
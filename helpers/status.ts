@@ -0,0 +1,168 @@
+import ObsidianGoogleDrive, { Operation } from "main";
+import {
+	ButtonComponent,
+	ItemView,
+	moment,
+	Setting,
+	TFile,
+	WorkspaceLeaf,
+} from "obsidian";
+import { describeError } from "./errors";
+import { pull } from "./pull";
+import { push, undoOperation } from "./push";
+
+export const STATUS_VIEW_TYPE = "google-drive-sync-status";
+
+const OPERATION_LABELS: Record<Operation, string> = {
+	create: "Created",
+	delete: "Deleted",
+	modify: "Modified",
+	rename: "Renamed",
+};
+
+/**
+ * A side panel with what is waiting to be pushed, when the vault last synced and what went wrong
+ */
+export class SyncStatusView extends ItemView {
+	t: ObsidianGoogleDrive;
+	stateEl: HTMLElement;
+	syncButtons: ButtonComponent[] = [];
+
+	constructor(leaf: WorkspaceLeaf, t: ObsidianGoogleDrive) {
+		super(leaf);
+		this.t = t;
+	}
+
+	getViewType() {
+		return STATUS_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "Google Drive sync";
+	}
+
+	getIcon() {
+		return "refresh-cw";
+	}
+
+	async onOpen() {
+		this.refresh();
+		// Keeps the time since the last sync and the progress of a running sync current
+		this.registerInterval(
+			window.setInterval(() => this.renderState(), 1000)
+		);
+	}
+
+	renderState() {
+		const { syncing, syncNotice, settings } = this.t;
+		this.stateEl.setText(
+			syncing
+				? syncNotice?.noticeEl.textContent || "Syncing"
+				: settings.lastSyncedAt
+				? `Last synced ${moment(settings.lastSyncedAt).fromNow()}`
+				: "Not synced yet"
+		);
+		this.syncButtons.forEach((btn) => btn.setDisabled(syncing));
+	}
+
+	refresh() {
+		const { contentEl } = this;
+		const { operations, renames } = this.t.settings;
+		contentEl.empty();
+		this.syncButtons = [];
+
+		this.stateEl = contentEl.createEl("p");
+		new Setting(contentEl)
+			.addButton((btn) => {
+				this.syncButtons.push(btn);
+				btn.setButtonText("Pull").onClick(() => this.t.runSync(pull));
+			})
+			.addButton((btn) => {
+				this.syncButtons.push(btn);
+				btn.setButtonText("Push")
+					.setCta()
+					.onClick(() => this.t.runSync(push));
+			});
+		this.renderState();
+
+		const paths = Object.keys(operations).sort();
+		contentEl.createEl("h6").setText(`Pending changes (${paths.length})`);
+		if (!paths.length) {
+			contentEl.createEl("p").setText("Everything has been pushed.");
+		}
+
+		// Grouped by the folder each file is in
+		const groups: Record<string, string[]> = {};
+		paths.forEach((path) => {
+			const folder = path.split("/").slice(0, -1).join("/") || "/";
+			if (!groups[folder]) groups[folder] = [];
+			groups[folder].push(path);
+		});
+
+		Object.entries(groups).forEach(([folder, paths]) => {
+			contentEl
+				.createEl("div", { cls: "sync-status-folder" })
+				.setText(folder);
+
+			paths.forEach((path) => {
+				const op = operations[path];
+				const file = this.app.vault.getAbstractFileByPath(path);
+				const setting = new Setting(contentEl)
+					.setName(path.split("/").pop() || path)
+					.setDesc(
+						op === "rename"
+							? `${OPERATION_LABELS[op]} from ${renames[path]}`
+							: OPERATION_LABELS[op]
+					);
+
+				if (file instanceof TFile) {
+					setting.addExtraButton((btn) =>
+						btn
+							.setIcon("file-text")
+							.setTooltip("Open")
+							.onClick(() =>
+								this.app.workspace.getLeaf().openFile(file)
+							)
+					);
+				}
+				setting
+					.addExtraButton((btn) =>
+						btn
+							.setIcon("undo-2")
+							.setTooltip("Revert")
+							.onClick(async () => {
+								if (this.t.syncing) return;
+								const undone = await undoOperation(
+									this.t,
+									path,
+									op
+								);
+								if (undone.length) {
+									await this.t.saveSettings();
+								}
+							})
+					)
+					.addExtraButton((btn) =>
+						btn
+							.setIcon("upload")
+							.setTooltip("Push")
+							.onClick(() =>
+								this.t.runSync((t) => push(t, [path]))
+							)
+					);
+			});
+		});
+
+		// Kept after a sync ends, so they can be looked at once the notice is gone
+		const { syncing, syncErrors } = this.t;
+		if (!syncing && syncErrors.length) {
+			contentEl
+				.createEl("h6")
+				.setText(`Errors from the last sync (${syncErrors.length})`);
+			const list = contentEl.createEl("ul");
+			syncErrors.forEach((error) =>
+				list.createEl("li").setText(describeError(error))
+			);
+		}
+	}
+}
@@ -0,0 +1,218 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, moment, Notice, Setting } from "obsidian";
+import { batchAsyncs, FileMetadata, folderMimeType, md5 } from "./drive";
+import { describeError, DriveError } from "./errors";
+import { writeBase } from "./merge";
+import { setFileState } from "./scan";
+import { ensureVaultId } from "./vault";
+
+class RestoreDeletedModal extends Modal {
+	proceed: (files: FileMetadata[]) => void;
+	selected = new Set<FileMetadata>();
+	restoring = false;
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		files: FileMetadata[],
+		proceed: (files: FileMetadata[]) => void
+	) {
+		super(t.app);
+		this.proceed = proceed;
+
+		this.setTitle("Restore deleted files");
+		this.contentEl
+			.createEl("p")
+			.setText(
+				"These files are in the Google Drive trash, where they stay for 30 days. Select the ones to restore:"
+			);
+
+		files.forEach((file) =>
+			new Setting(this.contentEl)
+				.setName(file.properties.path)
+				.setDesc(
+					`Last modified ${moment(file.modifiedTime).format(
+						"YYYY-MM-DD HH:mm"
+					)}`
+				)
+				.addToggle((toggle) =>
+					toggle.onChange((value) => {
+						if (value) this.selected.add(file);
+						else this.selected.delete(file);
+					})
+				)
+		);
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Restore")
+					.setCta()
+					.onClick(() => {
+						this.restoring = true;
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		this.proceed(this.restoring ? Array.from(this.selected) : []);
+	}
+}
+
+/**
+ * Lets the user pick files from the Google Drive trash, then restores them both on Google Drive and in the vault
+ */
+export const restoreDeleted = async (t: ObsidianGoogleDrive) => {
+	if (t.syncing) return;
+	const { vault } = t.app;
+	const { adapter } = vault;
+
+	let trashed: FileMetadata[];
+	let live: FileMetadata[];
+	try {
+		await ensureVaultId(t);
+		[trashed, live] = await Promise.all([
+			t.drive.searchFiles({
+				include: [
+					"id",
+					"mimeType",
+					"properties",
+					"modifiedTime",
+					"md5Checksum",
+				],
+				matches: [{ properties: { vaultId: t.settings.vaultId } }],
+				trashed: true,
+			}),
+			t.drive.searchFiles({
+				include: ["mimeType", "properties"],
+				matches: [{ properties: { vaultId: t.settings.vaultId } }],
+			}),
+		]);
+	} catch (e) {
+		return new Notice(
+			`Could not search the Google Drive trash: ${describeError(
+				DriveError.from(e, "list")
+			)}`
+		);
+	}
+
+	const folders = Object.fromEntries(
+		trashed
+			.filter(({ mimeType }) => mimeType === folderMimeType)
+			.map((folder) => [folder.properties.path, folder])
+	);
+
+	// Only the latest deleted version of each path, and only where nothing has replaced it locally or on Google Drive
+	const latest: Record<string, FileMetadata> = {};
+	trashed
+		.filter(
+			({ mimeType, properties }) =>
+				mimeType !== folderMimeType && properties?.path
+		)
+		.forEach((file) => {
+			const current = latest[file.properties.path];
+			if (!current || current.modifiedTime < file.modifiedTime) {
+				latest[file.properties.path] = file;
+			}
+		});
+
+	// Restoring over a file another device has since created would leave two files at the same path on Google Drive
+	const livePaths = new Set(
+		live
+			.filter(({ properties }) => properties?.path)
+			.map(({ properties }) => properties.path)
+	);
+
+	const files: FileMetadata[] = [];
+	for (const file of Object.values(latest)) {
+		const { path } = file.properties;
+		if (!livePaths.has(path) && !(await adapter.exists(path))) {
+			files.push(file);
+		}
+	}
+	files.sort((a, b) => (a.properties.path < b.properties.path ? -1 : 1));
+
+	if (!files.length) {
+		return new Notice("There are no deleted files to restore.");
+	}
+
+	const selected = await new Promise<FileMetadata[]>((resolve) => {
+		new RestoreDeletedModal(t, files, resolve).open();
+	});
+	if (!selected.length || t.syncing) return;
+
+	// A file inside a trashed folder is only back in place once the folder is too
+	const parentFolders = new Set<FileMetadata>();
+	selected.forEach(({ properties }) => {
+		const parts = properties.path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			const path = parts.slice(0, i).join("/");
+			// A folder another device has since created takes its place
+			if (folders[path] && !livePaths.has(path)) {
+				parentFolders.add(folders[path]);
+			}
+		}
+	});
+
+	t.syncing = true;
+	const notice = new Notice("Restoring deleted files...", 0);
+	const errors: DriveError[] = [];
+
+	try {
+		await t.drive.batchRestore(
+			[...parentFolders, ...selected].map(({ id }) => id)
+		);
+		parentFolders.forEach(({ id, properties }) => {
+			t.settings.driveIdToPath[id] = properties.path;
+		});
+
+		const localFolders = new Set<string>();
+		selected.forEach(({ properties }) => {
+			const parts = properties.path.split("/");
+			for (let i = 1; i < parts.length; i++) {
+				localFolders.add(parts.slice(0, i).join("/"));
+			}
+		});
+		// Set iteration follows insertion order, so every parent comes before its children
+		for (const folder of localFolders) {
+			if (!(await adapter.exists(folder))) await t.createFolder(folder);
+		}
+
+		await batchAsyncs(
+			selected.map((file) => async () => {
+				const { path } = file.properties;
+				try {
+					const content = await t.drive.getFile(file.id, path);
+					await t.upsertFile(path, content, file.modifiedTime);
+					t.settings.driveIdToPath[file.id] = path;
+					await setFileState(t, path, {
+						modifiedTime: file.modifiedTime,
+						md5: md5(content),
+					});
+					await writeBase(t, path, content);
+				} catch (e) {
+					errors.push(DriveError.from(e, "download", path));
+				}
+			})
+		);
+	} catch (e) {
+		errors.push(DriveError.from(e, "restore"));
+	} finally {
+		t.syncing = false;
+		notice.hide();
+		await t.saveSettings();
+	}
+
+	if (errors.length) {
+		return new Notice(
+			`Some files could not be restored:\n${errors
+				.map((error) => `- ${describeError(error)}`)
+				.join("\n")}`,
+			0
+		);
+	}
+	new Notice(`Restored ${selected.length} file(s) from Google Drive.`);
+};
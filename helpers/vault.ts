@@ -0,0 +1,142 @@
+import ObsidianGoogleDrive from "main";
+import { Modal, Notice, Setting } from "obsidian";
+import { FileMetadata } from "./drive";
+import { describeError, DriveError } from "./errors";
+
+/**
+ * @returns The vault folders on Google Drive, including those of other vaults
+ */
+const findVaultFolders = (t: ObsidianGoogleDrive) =>
+	t.drive.searchFiles(
+		{
+			include: ["id", "name", "properties"],
+			matches: [{ properties: { obsidian: "vault" } }],
+			inVault: false,
+		},
+		true
+	);
+
+/**
+ * Tags the files that only carry a vault name, from before vaults had IDs, with the vault's ID
+ */
+const tagVaultFiles = async (
+	t: ObsidianGoogleDrive,
+	vaultName: string,
+	vaultId: string
+) => {
+	for (const trashed of [false, true]) {
+		const files = await t.drive.searchFiles(
+			{
+				include: ["id", "properties"],
+				matches: [{ properties: { vault: vaultName } }],
+				inVault: false,
+				trashed,
+			},
+			true
+		);
+		await t.drive.batchUpdateProperties(
+			files
+				.filter(({ properties }) => !properties.vaultId)
+				.map(({ id }) => ({ id, properties: { vaultId } }))
+		);
+	}
+};
+
+/**
+ * Gives this vault its ID on first use. A vault this device synced before vaults had IDs takes over the one its vault folder on Google Drive already has, while any other vault gets a new one, even if a vault with the same name exists
+ */
+export const ensureVaultId = async (t: ObsidianGoogleDrive) => {
+	const { settings } = t;
+	if (settings.vaultId) return;
+
+	const vaultName = t.app.vault.getName();
+	const hasSynced =
+		Object.keys(settings.driveIdToPath).length > 0 ||
+		Object.keys(settings.fileStates).length > 0;
+	const folder = hasSynced
+		? (await findVaultFolders(t)).find(
+				({ properties }) => properties.vault === vaultName
+		  )
+		: undefined;
+
+	const vaultId = folder?.properties.vaultId || crypto.randomUUID();
+	if (folder) await tagVaultFiles(t, vaultName, vaultId);
+	settings.vaultId = vaultId;
+	await t.saveSettings();
+};
+
+class LinkVaultModal extends Modal {
+	proceed: (folder?: FileMetadata) => void;
+	picked?: FileMetadata;
+
+	constructor(
+		t: ObsidianGoogleDrive,
+		folders: FileMetadata[],
+		proceed: (folder?: FileMetadata) => void
+	) {
+		super(t.app);
+		this.proceed = proceed;
+
+		this.setTitle("Link to an existing vault");
+		this.contentEl
+			.createEl("p")
+			.setText(
+				"Choose the vault on Google Drive that this vault should sync with, e.g. after renaming it:"
+			);
+
+		folders.forEach((folder) =>
+			new Setting(this.contentEl)
+				.setName(folder.name)
+				.setDesc(
+					folder.properties.vaultId === t.settings.vaultId
+						? "Currently linked"
+						: `Vault name: ${folder.properties.vault}`
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Link")
+						.setDisabled(
+							folder.properties.vaultId === t.settings.vaultId
+						)
+						.onClick(() => {
+							this.picked = folder;
+							this.close();
+						})
+				)
+		);
+	}
+
+	onClose() {
+		this.proceed(this.picked);
+	}
+}
+
+/**
+ * Lets the user pick another vault on Google Drive to sync with
+ *
+ * @returns The ID of the picked vault
+ */
+export const pickVault = async (t: ObsidianGoogleDrive) => {
+	try {
+		const folders = await findVaultFolders(t);
+		if (!folders.length) {
+			new Notice("There are no vaults on Google Drive yet.");
+			return;
+		}
+
+		const folder = await new Promise<FileMetadata | undefined>(
+			(resolve) => new LinkVaultModal(t, folders, resolve).open()
+		);
+		if (!folder) return;
+
+		const vaultId = folder.properties.vaultId || crypto.randomUUID();
+		await tagVaultFiles(t, folder.properties.vault, vaultId);
+		return vaultId;
+	} catch (e) {
+		new Notice(
+			`Could not link the vault: ${describeError(
+				DriveError.from(e, "list")
+			)}`
+		);
+	}
+};
@@ -1,36 +1,164 @@
-import { checkConnection, getDriveClient } from "helpers/drive";
+import {
+	exportActivityLog,
+	finishActivity,
+	showActivityLog,
+	startActivity,
+	SyncActivity,
+	SyncTrigger,
+} from "helpers/activity";
+import {
+	AutoSyncState,
+	backgroundPull,
+	registerAutoSync,
+	scheduleAutoPull,
+	stopAutoSync,
+} from "helpers/auto";
+import {
+	checkConnection,
+	clearUploadSession,
+	getDriveClient,
+	restoreUploadSessions,
+} from "helpers/drive";
+import { describeError, DriveError, showErrorSummary } from "helpers/errors";
 import { refreshAccessToken } from "helpers/ky";
+import {
+	handleAuthRedirect,
+	PROTOCOL_ACTION,
+	signInWithGoogle,
+} from "helpers/oauth";
+import { showHistory } from "helpers/history";
+import { IgnoreRule, isIgnored, loadIgnoreRules } from "helpers/ignore";
+import { decorateFileExplorer, renderStatusBar } from "helpers/indicators";
+import { renameBase } from "helpers/merge";
+import { NATIVE_TYPES, NativeType } from "helpers/native";
+import { pickFolder } from "helpers/picker";
+import {
+	isExcluded,
+	loadExcludedFolders,
+	pickExcludedFolders,
+	setExcludedFolders,
+} from "helpers/selective";
+import { restoreDeleted } from "helpers/trash";
+import { ensureVaultId, pickVault } from "helpers/vault";
 import { pull } from "helpers/pull";
 import { push } from "helpers/push";
-import { reset } from "helpers/reset";
+import { previewSync } from "helpers/plan";
+import { reconcileVault } from "helpers/reconcile";
+import { scanVault, scanVaultForChanges } from "helpers/scan";
+import { STATUS_VIEW_TYPE, SyncStatusView } from "helpers/status";
 import {
 	App,
 	debounce,
 	Modal,
 	Notice,
+	Platform,
 	Plugin,
 	PluginSettingTab,
 	Setting,
 	TAbstractFile,
 	TFile,
+	TFolder,
 } from "obsidian";
 
+/**
+ * The state of a file on Google Drive the last time this device synced it
+ */
+export interface FileState {
+	modifiedTime: string;
+	md5?: string;
+	/**
+	 * The size and modification time of the local copy when it last had this content, to find changes without reading every file
+	 */
+	size?: number;
+	mtime?: number;
+}
+
+export type Operation = "create" | "delete" | "modify" | "rename";
+
 interface PluginSettings {
+	authMode: "proxy" | "custom";
 	refreshToken: string;
-	operations: Record<string, "create" | "delete" | "modify">;
+	tokenEndpoint: string;
+	pingEndpoint: string;
+	clientId: string;
+	clientSecret: string;
+	redirectUri: string;
+	operations: Record<string, Operation>;
+	/**
+	 * The path on Google Drive of each file with a pending rename, keyed by its new local path
+	 */
+	renames: Record<string, string>;
 	driveIdToPath: Record<string, string>;
+	fileStates: Record<string, FileState>;
+	resumableUploadThreshold: number;
+	maxRetries: number;
+	trashDeletions: boolean;
+	/**
+	 * The shared drive the vault is stored on, or empty for My Drive
+	 */
+	sharedDriveId: string;
+	/**
+	 * The folder the vault is stored in, or empty for a folder named after the vault inside a top-level "Obsidian" folder
+	 */
+	rootFolderId: string;
+	rootFolderName: string;
+	/**
+	 * Identifies the vault's files on Google Drive, so that they stay linked however the vault is named
+	 */
+	vaultId: string;
+	/**
+	 * The file extension Google Docs, Sheets and Slides are exported to
+	 */
+	nativeFormats: Record<NativeType, string>;
+	/**
+	 * The Google file each read-only export was made from, keyed by its local path
+	 */
+	nativeExports: Record<string, string>;
+	/**
+	 * Minutes between automatic pulls, or 0 to only pull when Obsidian starts
+	 */
+	autoPullInterval: number;
+	/**
+	 * Seconds without changes to the vault before pushing automatically, or 0 to only push manually
+	 */
+	autoPushDelay: number;
+	syncOnResume: boolean;
+	pushOnQuit: boolean;
 	lastSyncedAt: number;
 	changesToken: string;
 }
 
 const DEFAULT_SETTINGS: PluginSettings = {
+	authMode: "proxy",
 	refreshToken: "",
+	tokenEndpoint: "https://ogd.richardxiong.com/api/access",
+	pingEndpoint: "https://ogd.richardxiong.com/api/ping",
+	clientId: "",
+	clientSecret: "",
+	redirectUri: "",
 	operations: {},
+	renames: {},
 	driveIdToPath: {},
+	fileStates: {},
+	resumableUploadThreshold: 5,
+	maxRetries: 5,
+	trashDeletions: true,
+	sharedDriveId: "",
+	rootFolderId: "",
+	rootFolderName: "",
+	vaultId: "",
+	nativeFormats: { document: "md", spreadsheet: "csv", presentation: "pdf" },
+	nativeExports: {},
+	autoPullInterval: 0,
+	autoPushDelay: 0,
+	syncOnResume: false,
+	pushOnQuit: false,
 	lastSyncedAt: 0,
 	changesToken: "",
 };
 
+const DEVICE_NAME_KEY = "google-drive-sync-device-name";
+
 export default class ObsidianGoogleDrive extends Plugin {
 	settings: PluginSettings;
 	accessToken = {
@@ -39,15 +167,45 @@ export default class ObsidianGoogleDrive extends Plugin {
 	};
 	drive = getDriveClient(this);
 	ribbonIcon: HTMLElement;
+	statusBarItem?: HTMLElement;
 	syncing: boolean;
+	syncNotice?: Notice;
+	/**
+	 * Files that failed during the current sync, reported together once it ends
+	 */
+	syncErrors: DriveError[] = [];
+	/**
+	 * What the current sync has done so far, logged once it ends
+	 */
+	activity?: SyncActivity;
+	autoSync: AutoSyncState = { backoff: 0, retryAt: 0 };
+	/**
+	 * The built-in ignore rules followed by the vault's own, reloaded before every sync
+	 */
+	ignoreRules: IgnoreRule[] = [];
+	/**
+	 * The folders this device leaves out of syncing
+	 */
+	excludedFolders: string[] = [];
+	/**
+	 * Exports the user was already told are read-only this session
+	 */
+	warnedExports = new Set<string>();
 
 	async onload() {
 		const { vault } = this.app;
 
 		await this.loadSettings();
+		await loadIgnoreRules(this);
+		loadExcludedFolders(this);
 
 		this.addSettingTab(new SettingsTab(this.app, this));
 
+		this.registerObsidianProtocolHandler(
+			PROTOCOL_ACTION,
+			handleAuthRedirect
+		);
+
 		if (!this.settings.refreshToken) {
 			new Notice(
 				"Please add your refresh token to Google Drive Sync through our website or our readme/this plugin's settings. If you haven't already, PLEASE read through this plugin's readme or website CAREFULLY for instructions on how to use this plugin. If you don't know what you're doing, your data could get DELETED.",
@@ -59,27 +217,120 @@ export default class ObsidianGoogleDrive extends Plugin {
 		this.ribbonIcon = this.addRibbonIcon(
 			"refresh-cw",
 			"Push to Google Drive",
-			() => push(this)
+			() => this.runSync(push)
+		);
+
+		this.statusBarItem = this.addStatusBarItem();
+		this.statusBarItem.addClass("mod-clickable");
+		this.statusBarItem.onClickEvent(() => this.showSyncStatus());
+		this.registerInterval(
+			window.setInterval(() => renderStatusBar(this), 60_000)
+		);
+		this.registerDomEvent(window, "online", () => renderStatusBar(this));
+		this.registerDomEvent(window, "offline", () => renderStatusBar(this));
+		// The file explorer may be opened, or its items created, after the plugin loads
+		this.app.workspace.onLayoutReady(() => this.refreshSyncStatus());
+		this.registerEvent(
+			this.app.workspace.on("layout-change", () =>
+				decorateFileExplorer(this)
+			)
+		);
+
+		this.registerView(
+			STATUS_VIEW_TYPE,
+			(leaf) => new SyncStatusView(leaf, this)
 		);
 
+		this.addCommand({
+			id: "show-sync-status",
+			name: "Show sync status",
+			callback: () => this.showSyncStatus(),
+		});
+
 		this.addCommand({
 			id: "push",
 			name: "Push to Google Drive",
-			callback: () => push(this),
+			callback: () => this.runSync(push),
 		});
 
 		this.addCommand({
 			id: "pull",
 			name: "Pull from Google Drive",
-			callback: () => pull(this),
+			callback: () => this.runSync(pull),
 		});
 
 		this.addCommand({
 			id: "reset",
 			name: "Reset local vault to Google Drive",
-			callback: () => reset(this),
+			// Discards local changes, so it is always reviewed first
+			callback: () => this.runSync((t) => previewSync(t, "reset")),
+		});
+
+		this.addCommand({
+			id: "preview-push",
+			name: "Preview push to Google Drive",
+			callback: () => this.runSync((t) => previewSync(t, "push")),
+		});
+
+		this.addCommand({
+			id: "preview-pull",
+			name: "Preview pull from Google Drive",
+			callback: () => this.runSync((t) => previewSync(t, "pull")),
+		});
+
+		this.addCommand({
+			id: "scan-vault",
+			name: "Find changes made outside Obsidian",
+			callback: () => scanVaultForChanges(this),
+		});
+
+		this.addCommand({
+			id: "reconcile-vault",
+			name: "Reconcile vault with Google Drive",
+			callback: () => this.runSync(reconcileVault),
+		});
+
+		this.addCommand({
+			id: "show-activity-log",
+			name: "Show sync activity log",
+			callback: () => showActivityLog(this),
+		});
+
+		this.addCommand({
+			id: "export-activity-log",
+			name: "Export sync activity log to a note",
+			callback: () => exportActivityLog(this),
 		});
 
+		this.addCommand({
+			id: "restore-deleted",
+			name: "Restore deleted files from Google Drive",
+			callback: () => restoreDeleted(this),
+		});
+
+		this.addCommand({
+			id: "show-history",
+			name: "Show Google Drive history for this note",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) showHistory(this, file);
+				return true;
+			},
+		});
+
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (!(file instanceof TFile)) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Show Google Drive history")
+						.setIcon("history")
+						.onClick(() => showHistory(this, file))
+				);
+			})
+		);
+
 		this.registerEvent(
 			this.app.workspace.on("quit", () => this.saveSettings())
 		);
@@ -91,17 +342,18 @@ export default class ObsidianGoogleDrive extends Plugin {
 		this.registerEvent(vault.on("modify", this.handleModify.bind(this)));
 		this.registerEvent(vault.on("rename", this.handleRename.bind(this)));
 
-		checkConnection().then(async (connected) => {
-			if (connected) {
-				this.syncing = true;
-				this.ribbonIcon.addClass("spin");
-				await pull(this, true);
-				await this.endSync();
-			}
+		registerAutoSync(this);
+
+		// Changes made while the plugin was disabled are queued before pulling, so that they are merged rather than overwritten
+		this.app.workspace.onLayoutReady(async () => {
+			await scanVault(this);
+			if (!(await checkConnection(this))) return;
+			await this.runSync((t) => backgroundPull(t, "startup"));
 		});
 	}
 
 	onunload() {
+		stopAutoSync(this);
 		return this.saveSettings();
 	}
 
@@ -111,17 +363,62 @@ export default class ObsidianGoogleDrive extends Plugin {
 			DEFAULT_SETTINGS,
 			await this.loadData()
 		);
+		// Interrupted uploads used to be kept here, and synced to every device
+		delete (this.settings as any).uploadSessions;
 	}
 
 	saveSettings() {
+		this.refreshSyncStatus();
 		return this.saveData(this.settings);
 	}
 
+	async showSyncStatus() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(STATUS_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+			await leaf.setViewState({ type: STATUS_VIEW_TYPE, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Updates everything showing the sync state, i.e. the status panel, the status bar and the file explorer badges
+	 */
+	refreshSyncStatus() {
+		renderStatusBar(this);
+		decorateFileExplorer(this);
+		this.app.workspace
+			.getLeavesOfType(STATUS_VIEW_TYPE)
+			.forEach(({ view }) => {
+				if (view instanceof SyncStatusView) view.refresh();
+			});
+	}
+
+	/**
+	 * Stored in local storage rather than the settings, which are synced between devices
+	 */
+	getDeviceName(): string {
+		const deviceName = (this.app as any).loadLocalStorage(DEVICE_NAME_KEY);
+		if (deviceName) return deviceName;
+		if (Platform.isIosApp) return "iOS";
+		if (Platform.isAndroidApp) return "Android";
+		if (Platform.isMacOS) return "Mac";
+		if (Platform.isWin) return "Windows";
+		if (Platform.isLinux) return "Linux";
+		return "Unknown device";
+	}
+
+	setDeviceName(deviceName: string) {
+		(this.app as any).saveLocalStorage(DEVICE_NAME_KEY, deviceName || null);
+	}
+
 	debouncedSaveSettings = debounce(this.saveSettings.bind(this), 500, true);
 
 	handleCreate(file: TAbstractFile) {
+		if (this.settings.nativeExports[file.path]) return;
 		// Include hidden files and folders (starting with .)
-		if (this.shouldSyncFile(file.path)) {
+		if (this.shouldSyncFile(file.path, file instanceof TFolder)) {
 			if (this.settings.operations[file.path] === "delete") {
 				if (file instanceof TFile) {
 					this.settings.operations[file.path] = "modify";
@@ -136,8 +433,14 @@ export default class ObsidianGoogleDrive extends Plugin {
 	}
 
 	handleDelete(file: TAbstractFile) {
+		// The Google file stays, and is exported again once it changes
+		if (this.settings.nativeExports[file.path]) {
+			this.releaseExport(file.path);
+			this.debouncedSaveSettings();
+			return;
+		}
 		// Include hidden files and folders (starting with .)
-		if (this.shouldSyncFile(file.path)) {
+		if (this.shouldSyncFile(file.path, file instanceof TFolder)) {
 			if (this.settings.operations[file.path] === "create") {
 				delete this.settings.operations[file.path];
 			} else {
@@ -148,6 +451,15 @@ export default class ObsidianGoogleDrive extends Plugin {
 	}
 
 	handleModify(file: TFile) {
+		if (this.settings.nativeExports[file.path]) {
+			if (!this.syncing && !this.warnedExports.has(file.path)) {
+				this.warnedExports.add(file.path);
+				new Notice(
+					`${file.name} is an export of a Google file, so your changes will not be synced and are overwritten once the original changes.`
+				);
+			}
+			return;
+		}
 		// Include hidden files and folders (starting with .)
 		if (this.shouldSyncFile(file.path)) {
 			const operation = this.settings.operations[file.path];
@@ -159,28 +471,136 @@ export default class ObsidianGoogleDrive extends Plugin {
 		}
 	}
 
-	shouldSyncFile(path: string): boolean {
-		// Allow syncing of hidden files/folders (starting with .)
-		// Exclude only system files that shouldn't be synced
-		const excludePatterns = [
-			'.DS_Store',
-			'.git/',
-			'node_modules/',
-			'.obsidian/workspace.json',
-			'.obsidian/workspace-mobile.json',
-		];
-		
-		return !excludePatterns.some(pattern => 
-			pattern.endsWith('/') ? path.startsWith(pattern) : path.includes(pattern)
+	/**
+	 * @param isFolder Needed for ignore rules that only match folders
+	 */
+	shouldSyncFile(path: string, isFolder?: boolean): boolean {
+		return (
+			!isIgnored(this.ignoreRules, path, isFolder) &&
+			!isExcluded(this, path)
 		);
 	}
 
 	handleRename(file: TAbstractFile, oldPath: string) {
-		this.handleDelete({ ...file, path: oldPath });
-		this.handleCreate(file);
+		const { operations, renames } = this.settings;
+
+		// Without a file on Google Drive to move, or with another one at the new path, this is a deletion and a creation
+		const isFolder = file instanceof TFolder;
+		if (
+			!this.shouldSyncFile(oldPath, isFolder) ||
+			!this.shouldSyncFile(file.path, isFolder) ||
+			operations[file.path] === "delete"
+		) {
+			this.handleDelete({ ...file, path: oldPath } as TAbstractFile);
+			this.handleCreate(file);
+			this.debouncedSaveSettings();
+			return;
+		}
+
+		const operation = operations[oldPath];
+		const drivePath = this.getDrivePath(oldPath);
+		this.moveSyncState(oldPath, file.path);
+
+		// Obsidian also reports everything inside a renamed folder, which moves along with it on Google Drive
+		const oldParent = oldPath.split("/").slice(0, -1).join("/");
+		const movedWithParent =
+			oldPath.split("/").pop() === file.name &&
+			oldParent &&
+			!this.app.vault.getAbstractFileByPath(oldParent);
+
+		// A renamed export becomes a file of its own, unless it only moved along with its folder
+		if (this.settings.nativeExports[file.path]) {
+			if (!movedWithParent) {
+				this.releaseExport(file.path);
+				this.handleCreate(file);
+			}
+			this.debouncedSaveSettings();
+			return;
+		}
+
+		if (!movedWithParent && operation !== "create") {
+			if (drivePath === file.path) {
+				delete renames[file.path];
+				// Content changes are unknown at this point, and unchanged files are dropped before pushing
+				if (file instanceof TFile) operations[file.path] = "modify";
+				else delete operations[file.path];
+			} else {
+				operations[file.path] = "rename";
+				renames[file.path] = drivePath;
+			}
+		}
+
 		this.debouncedSaveSettings();
 	}
 
+	/**
+	 * @returns The path a file has on Google Drive, which differs from the local one until pending renames are pushed
+	 */
+	getDrivePath(path: string) {
+		const { renames } = this.settings;
+		if (renames[path]) return renames[path];
+
+		const parts = path.split("/");
+		for (let i = parts.length - 1; i > 0; i--) {
+			const folder = parts.slice(0, i).join("/");
+			if (renames[folder]) {
+				return [renames[folder], ...parts.slice(i)].join("/");
+			}
+		}
+		return path;
+	}
+
+	/**
+	 * Moves everything tracked for a file over to its new path
+	 */
+	moveSyncState(oldPath: string, newPath: string) {
+		const {
+			operations,
+			renames,
+			fileStates,
+			nativeExports,
+			driveIdToPath,
+		} = this.settings;
+		const move = (record: Record<string, unknown>) => {
+			if (!(oldPath in record)) return;
+			record[newPath] = record[oldPath];
+			delete record[oldPath];
+		};
+		move(operations);
+		move(renames);
+		move(fileStates);
+		move(nativeExports);
+
+		const id = Object.keys(driveIdToPath).find(
+			(id) => driveIdToPath[id] === oldPath
+		);
+		if (id) driveIdToPath[id] = newPath;
+
+		// A resumable upload would finish with the old path in its metadata
+		clearUploadSession(this, oldPath);
+		renameBase(this, oldPath, newPath);
+	}
+
+	/**
+	 * Stops tracking an export of a Google file, e.g. once it is deleted or renamed locally
+	 */
+	releaseExport(path: string) {
+		const { nativeExports, driveIdToPath } = this.settings;
+		const id = nativeExports[path];
+		delete nativeExports[path];
+		if (driveIdToPath[id] === path) delete driveIdToPath[id];
+	}
+
+	async renameFile(file: TAbstractFile, newPath: string) {
+		const oldOperation = this.settings.operations[file.path];
+		const oldRename = this.settings.renames[file.path];
+		await this.app.vault.rename(file, newPath);
+		this.settings.operations[newPath] = oldOperation;
+		if (!oldOperation) delete this.settings.operations[newPath];
+		this.settings.renames[newPath] = oldRename;
+		if (!oldRename) delete this.settings.renames[newPath];
+	}
+
 	async createFolder(path: string) {
 		const oldOperation = this.settings.operations[path];
 		await this.app.vault.createFolder(path);
@@ -255,22 +675,32 @@ export default class ObsidianGoogleDrive extends Plugin {
 		if (!oldOperation) delete this.settings.operations[file.path];
 	}
 
-	async startSync() {
-		if (!(await checkConnection())) {
+	async startSync(trigger: SyncTrigger) {
+		if (!(await checkConnection(this))) {
 			throw new Notice(
 				"You are not connected to the internet, so you cannot sync right now. Please try syncing once you have connection again."
 			);
 		}
 		this.ribbonIcon.addClass("spin");
 		this.syncing = true;
-		return new Notice("Syncing (0%)", 0);
+		this.syncErrors = [];
+		startActivity(this, trigger);
+		this.syncNotice = new Notice("Syncing (0%)", 0);
+		this.refreshSyncStatus();
+		await ensureVaultId(this);
+		return this.syncNotice;
 	}
 
 	async endSync(syncNotice?: Notice, retainConfigChanges = true) {
+		// Files that failed to download are only found again if the next pull searches from before this one, and reads the same changes again
+		const pullFailed = this.syncErrors.some(
+			({ kind }) => kind === "download"
+		);
+
 		if (retainConfigChanges) {
 			const configFilesToSync = await this.drive.getConfigFilesToSync();
 
-			this.settings.lastSyncedAt = Date.now();
+			if (!pullFailed) this.settings.lastSyncedAt = Date.now();
 
 			await Promise.all(
 				configFilesToSync.map(async (file) =>
@@ -281,21 +711,42 @@ export default class ObsidianGoogleDrive extends Plugin {
 					)
 				)
 			);
-		} else {
+		} else if (!pullFailed) {
 			this.settings.lastSyncedAt = Date.now();
 		}
 
-		const changesToken = await this.drive.getChangesStartToken();
-		if (!changesToken) {
-			return new Notice(
-				"An error occurred fetching Google Drive changes token."
-			);
+		if (!pullFailed) {
+			this.settings.changesToken =
+				await this.drive.getChangesStartToken();
 		}
-		this.settings.changesToken = changesToken;
 		await this.saveSettings();
 		this.ribbonIcon.removeClass("spin");
 		this.syncing = false;
 		syncNotice?.hide();
+		this.refreshSyncStatus();
+		await finishActivity(this);
+
+		if (this.syncErrors.length) showErrorSummary(this.syncErrors);
+	}
+
+	/**
+	 * Runs a sync, cleaning up and reporting the error if it is aborted partway through
+	 */
+	async runSync(sync: (t: ObsidianGoogleDrive) => Promise<unknown>) {
+		try {
+			await sync(this);
+		} catch (e) {
+			// startSync throws its offline notice, which has already been shown
+			if (e instanceof Notice) return;
+			const error = DriveError.from(e, "request");
+			console.error("[GDriveSync] Sync failed:", error);
+			this.syncNotice?.hide();
+			this.ribbonIcon.removeClass("spin");
+			this.syncing = false;
+			this.refreshSyncStatus();
+			await finishActivity(this, describeError(error));
+			new Notice(`Sync failed: ${describeError(error)}`, 0);
+		}
 	}
 }
 
@@ -313,6 +764,185 @@ class SettingsTab extends PluginSettingTab {
 
 		containerEl.empty();
 
+		new Setting(containerEl)
+			.setName("Authentication")
+			.setDesc(
+				"Sign in through the plugin's token server, or through your own Google Cloud OAuth client so that no third-party server is involved."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("proxy", "Token server")
+					.addOption("custom", "Own OAuth client")
+					.setValue(this.plugin.settings.authMode)
+					.onChange(async (value: PluginSettings["authMode"]) => {
+						this.plugin.settings.authMode = value;
+						this.plugin.settings.refreshToken = "";
+						this.plugin.accessToken = { token: "", expiresAt: 0 };
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.authMode === "custom") {
+			this.displayCustomAuth();
+		} else {
+			this.displayProxyAuth();
+		}
+
+		if (this.plugin.settings.refreshToken) this.displayVaultLocation();
+
+		new Setting(containerEl)
+			.setName("Device name")
+			.setDesc(
+				"Used to label the copies kept when a file was changed on two devices at once. This setting is not synced."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(this.plugin.getDeviceName())
+					.setValue(
+						(this.app as any).loadLocalStorage(DEVICE_NAME_KEY) ||
+							""
+					)
+					.onChange((value) => this.plugin.setDeviceName(value))
+			);
+
+		new Setting(containerEl)
+			.setName("Resumable upload threshold (MB)")
+			.setDesc(
+				"Files at least this large are uploaded in chunks, and an interrupted upload continues where it left off on the next push."
+			)
+			.addText((text) =>
+				text
+					.setValue(
+						String(this.plugin.settings.resumableUploadThreshold)
+					)
+					.onChange((value) => {
+						const threshold = Number(value);
+						if (!value || isNaN(threshold) || threshold < 0) return;
+						this.plugin.settings.resumableUploadThreshold =
+							threshold;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Maximum retries")
+			.setDesc(
+				"How many times a request is retried when Google Drive is rate limiting or temporarily unavailable, waiting longer each time."
+			)
+			.addText((text) =>
+				text
+					.setValue(String(this.plugin.settings.maxRetries))
+					.onChange((value) => {
+						const maxRetries = parseInt(value);
+						if (isNaN(maxRetries) || maxRetries < 0) return;
+						this.plugin.settings.maxRetries = maxRetries;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Move deleted files to the Google Drive trash")
+			.setDesc(
+				"Deleted files can then be restored for 30 days with the \"Restore deleted files from Google Drive\" command. Otherwise they are deleted permanently."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.trashDeletions)
+					.onChange((value) => {
+						this.plugin.settings.trashDeletions = value;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+
+		(Object.keys(NATIVE_TYPES) as NativeType[]).forEach((type) => {
+			const { name, formats } = NATIVE_TYPES[type];
+			new Setting(containerEl)
+				.setName(`${name} format`)
+				.setDesc(
+					`The format ${name} files in the vault folder are exported to. Exports are read-only, so changes to them are never pushed.`
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(
+							Object.fromEntries(
+								Object.keys(formats).map((extension) => [
+									extension,
+									extension.toUpperCase(),
+								])
+							)
+						)
+						.setValue(this.plugin.settings.nativeFormats[type])
+						.onChange((value) => {
+							this.plugin.settings.nativeFormats[type] = value;
+							this.plugin.debouncedSaveSettings();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName("Pull automatically every (minutes)")
+			.setDesc("Set to 0 to only pull when Obsidian starts.")
+			.addText((text) =>
+				text
+					.setValue(String(this.plugin.settings.autoPullInterval))
+					.onChange((value) => {
+						const interval = parseInt(value);
+						if (isNaN(interval) || interval < 0) return;
+						this.plugin.settings.autoPullInterval = interval;
+						scheduleAutoPull(this.plugin);
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Push automatically after (seconds)")
+			.setDesc(
+				"Pushes without asking once the vault has not changed for this long. Set to 0 to only push manually."
+			)
+			.addText((text) =>
+				text
+					.setValue(String(this.plugin.settings.autoPushDelay))
+					.onChange((value) => {
+						const delay = parseInt(value);
+						if (isNaN(delay) || delay < 0) return;
+						this.plugin.settings.autoPushDelay = delay;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Sync when the app is reopened")
+			.setDesc(
+				"On mobile, pushes pending changes, or pulls if there are none, whenever Obsidian comes back to the foreground."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncOnResume)
+					.onChange((value) => {
+						this.plugin.settings.syncOnResume = value;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Push when quitting")
+			.setDesc(
+				"Pushes pending changes without asking when Obsidian is closed. Large pushes may not finish in time."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.pushOnQuit)
+					.onChange((value) => {
+						this.plugin.settings.pushOnQuit = value;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+	}
+
+	displayProxyAuth() {
+		const { containerEl } = this;
+
 		containerEl.createEl("a", {
 			href: "https://ogd.richardxiong.com",
 			text: "Get refresh token",
@@ -341,53 +971,346 @@ class SettingsTab extends PluginSettingTab {
 							text.setValue("");
 							return;
 						}
-						
-						// Ensure Obsidian folder structure exists
-						const structureCreated = await this.plugin.drive.ensureObsidianStructure();
-						if (!structureCreated) {
-							new Notice("Failed to create Obsidian folder structure in Google Drive.");
-							return cancel();
-						}
+						await this.connect(cancel);
+					});
+			});
 
-						const changesToken =
-							await this.plugin.drive.getChangesStartToken();
-						if (!changesToken) {
-							return new Notice(
-								"An error occurred fetching Google Drive changes token."
-							);
-						}
-						this.plugin.settings.changesToken = changesToken;
+		new Setting(containerEl)
+			.setName("Token endpoint")
+			.setDesc(
+				"Where refresh tokens are exchanged for access tokens. Only change this if you host the token server yourself."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.tokenEndpoint)
+					.setValue(this.plugin.settings.tokenEndpoint)
+					.onChange((value) => {
+						this.plugin.settings.tokenEndpoint =
+							value || DEFAULT_SETTINGS.tokenEndpoint;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
 
-						await this.plugin.saveSettings();
-						
-						// Perform automatic sync if vault is empty (including hidden files)
-						const allFiles = await this.getAllVaultFiles();
-						const vaultFiles = allFiles.filter(path => 
-							path !== "/" && this.plugin.shouldSyncFile(path)
+		new Setting(containerEl)
+			.setName("Ping endpoint")
+			.setDesc("Used to check whether you are online.")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.pingEndpoint)
+					.setValue(this.plugin.settings.pingEndpoint)
+					.onChange((value) => {
+						this.plugin.settings.pingEndpoint =
+							value || DEFAULT_SETTINGS.pingEndpoint;
+						this.plugin.debouncedSaveSettings();
+					})
+			);
+	}
+
+	displayVaultLocation() {
+		const { containerEl } = this;
+		const { settings } = this.plugin;
+
+		new Setting(containerEl)
+			.setName("Vault location")
+			.setDesc(
+				"Store the vault on My Drive or on a shared drive. Switching compares the vault with what is already at the new location before syncing."
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", "My Drive").setDisabled(true);
+
+				this.plugin.drive
+					.listSharedDrives()
+					.then((drives) =>
+						drives.forEach(({ id, name }) =>
+							dropdown.addOption(id, name)
+						)
+					)
+					.catch((e) =>
+						new Notice(
+							`Could not list your shared drives: ${describeError(
+								DriveError.from(e, "list")
+							)}`
+						)
+					)
+					.finally(() =>
+						dropdown
+							.setValue(settings.sharedDriveId)
+							.setDisabled(false)
+					);
+
+				dropdown.onChange(async (value) => {
+					const previous = { ...settings };
+					await this.relocate(
+						() => {
+							settings.sharedDriveId = value;
+							// A folder picked on the previous drive is not on this one
+							settings.rootFolderId = "";
+							settings.rootFolderName = "";
+						},
+						() => Object.assign(settings, previous)
+					);
+					this.display();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Vault folder")
+			.setDesc(
+				`The vault is stored in ${
+					settings.rootFolderId
+						? settings.rootFolderName
+						: `Obsidian/${this.app.vault.getName()}`
+				}. Choosing another folder compares the vault with what is already there before syncing.`
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Choose folder").onClick(async () => {
+					const folder = await pickFolder(this.plugin);
+					if (!folder) return;
+					const previous = { ...settings };
+					await this.relocate(
+						() => {
+							settings.rootFolderId = folder.id;
+							settings.rootFolderName = folder.name;
+						},
+						() => Object.assign(settings, previous)
+					);
+					this.display();
+				})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Use default")
+					.setDisabled(!settings.rootFolderId)
+					.onClick(async () => {
+						const previous = { ...settings };
+						await this.relocate(
+							() => {
+								settings.rootFolderId = "";
+								settings.rootFolderName = "";
+							},
+							() => Object.assign(settings, previous)
 						);
-						
-						if (vaultFiles.length === 0) {
-							new Notice("Performing initial sync from Google Drive...");
-							try {
-								await pull(this.plugin, true);
-								new Notice("Initial sync completed successfully!");
-							} catch (error) {
-								console.error("[GDriveSync] Initial sync failed:", error);
-								new Notice("Initial sync failed. You can manually sync later.");
-							}
-						} else {
-							new Notice(
-								"Your vault contains files. Please manually sync to merge with Google Drive content.",
-								8000
+						this.display();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Linked vault")
+			.setDesc(
+				"Files on Google Drive belong to a vault by its ID rather than its name. Link this vault to another one on Google Drive, e.g. after renaming it on a new device, to sync with that one instead."
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Link to existing vault").onClick(async () => {
+					const vaultId = await pickVault(this.plugin);
+					if (!vaultId) return;
+					const previous = { ...settings };
+					await this.relocate(
+						() => {
+							settings.vaultId = vaultId;
+							settings.rootFolderId = "";
+							settings.rootFolderName = "";
+						},
+						() => Object.assign(settings, previous)
+					);
+					this.display();
+				})
+			);
+
+		const { excludedFolders } = this.plugin;
+		new Setting(containerEl)
+			.setName("Folders on this device")
+			.setDesc(
+				(excludedFolders.length
+					? `Not synced: ${excludedFolders.join(", ")}. `
+					: "All folders are synced. ") +
+					"Folders left out stay on Google Drive, and their local copies can be deleted without deleting them there. This setting is not synced."
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Choose folders").onClick(async () => {
+					const folders = await pickExcludedFolders(this.plugin);
+					if (!folders) return;
+					setExcludedFolders(this.plugin, folders);
+					this.display();
+				})
+			);
+	}
+
+	/**
+	 * Moves syncing to another location on Google Drive, comparing the vault with whatever is already there before anything syncs
+	 */
+	async relocate(update: () => void, revert: () => void) {
+		const { settings } = this.plugin;
+		if (this.plugin.syncing) {
+			return new Notice(
+				"Please wait for the current sync to finish first."
+			);
+		}
+
+		update();
+		if (!(await this.plugin.drive.ensureObsidianStructure())) {
+			revert();
+			return new Notice(
+				"Failed to create Obsidian folder structure at that location."
+			);
+		}
+
+		// What to upload is only known once the vault is reconciled with the new location
+		settings.operations = {};
+		settings.renames = {};
+		settings.driveIdToPath = {};
+		settings.fileStates = {};
+		// Interrupted uploads were headed for the previous location
+		const uploadSessions = clearUploadSession(this.plugin);
+		settings.nativeExports = {};
+		settings.lastSyncedAt = 0;
+
+		await this.connect(async () => {
+			revert();
+			restoreUploadSessions(this.plugin, uploadSessions);
+			await this.plugin.saveSettings();
+		}, true);
+	}
+
+	displayCustomAuth() {
+		const { containerEl } = this;
+		const { settings } = this.plugin;
+
+		containerEl.createEl("p", {
+			text: "Create an OAuth client in the Google Cloud console with the Google Drive API enabled. A desktop app client works for signing in on desktop.",
+		});
+
+		new Setting(containerEl).setName("Client ID").addText((text) =>
+			text.setValue(settings.clientId).onChange((value) => {
+				settings.clientId = value.trim();
+				this.plugin.debouncedSaveSettings();
+			})
+		);
+
+		new Setting(containerEl)
+			.setName("Client secret")
+			.setDesc(
+				"Only needed if Google requires it for your client type (e.g. desktop app clients)."
+			)
+			.addText((text) =>
+				text.setValue(settings.clientSecret).onChange((value) => {
+					settings.clientSecret = value.trim();
+					this.plugin.debouncedSaveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Redirect URI")
+			.setDesc(
+				`Leave empty on desktop to sign in through a temporary local server. On mobile, enter a redirect URI registered for your client that forwards its query parameters to obsidian://${PROTOCOL_ACTION}.`
+			)
+			.addText((text) =>
+				text.setValue(settings.redirectUri).onChange((value) => {
+					settings.redirectUri = value.trim();
+					this.plugin.debouncedSaveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Google account")
+			.setDesc(
+				settings.refreshToken
+					? "Signed in. Sign in again to switch accounts."
+					: "Not signed in."
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Sign in with Google")
+					.setCta()
+					.onClick(async () => {
+						btn.setDisabled(true);
+						try {
+							settings.refreshToken = await signInWithGoogle(
+								this.plugin
 							);
+						} catch (e: any) {
+							new Notice(e.message || "Signing in failed.");
+							btn.setDisabled(false);
+							return;
 						}
-						
-						new Notice(
-							"Refresh token saved! Google Drive sync is now active.",
-							5000
-						);
-					});
-			});
+						await this.connect(async () => {
+							settings.refreshToken = "";
+							await this.plugin.saveSettings();
+						});
+						this.display();
+					})
+			);
+	}
+
+	/**
+	 * @param isRelocating Whether to cancel if the vault is not reconciled with Google Drive, rather than leaving that for later
+	 */
+	async connect(cancel: () => Promise<void>, isRelocating = false) {
+		try {
+			await ensureVaultId(this.plugin);
+		} catch (e) {
+			new Notice(
+				`Failed to identify this vault on Google Drive: ${describeError(
+					DriveError.from(e, "list")
+				)}`
+			);
+			return cancel();
+		}
+
+		// Ensure Obsidian folder structure exists
+		const structureCreated =
+			await this.plugin.drive.ensureObsidianStructure();
+		if (!structureCreated) {
+			new Notice(
+				"Failed to create Obsidian folder structure in Google Drive."
+			);
+			return cancel();
+		}
+
+		try {
+			this.plugin.settings.changesToken =
+				await this.plugin.drive.getChangesStartToken();
+		} catch (e) {
+			console.error("[GDriveSync] Failed to fetch changes token:", e);
+			new Notice("An error occurred fetching Google Drive changes token.");
+			return;
+		}
+
+		await this.plugin.saveSettings();
+
+		// Perform automatic sync if vault is empty (including hidden files)
+		const allFiles = await this.getAllVaultFiles();
+		const vaultFiles = allFiles.filter(
+			(path) => path !== "/" && this.plugin.shouldSyncFile(path)
+		);
+
+		if (vaultFiles.length === 0) {
+			new Notice("Performing initial sync from Google Drive...");
+			try {
+				await pull(this.plugin, true);
+				new Notice("Initial sync completed successfully!");
+			} catch (error) {
+				console.error("[GDriveSync] Initial sync failed:", error);
+				new Notice("Initial sync failed. You can manually sync later.");
+			}
+		} else {
+			// Neither side is treated as empty, so nothing is overwritten or deleted without asking
+			let reconciled = false;
+			await this.plugin.runSync(
+				async (t) => (reconciled = await reconcileVault(t))
+			);
+			if (!reconciled) {
+				if (isRelocating) return cancel();
+				new Notice(
+					'Nothing was synced yet. Run the "Reconcile vault with Google Drive" command before syncing.',
+					0
+				);
+			}
+		}
+
+		new Notice(
+			"Google Drive sync is now active! Please restart Obsidian.",
+			5000
+		);
 	}
 
 	async getAllVaultFiles(): Promise<string[]> {
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			obsidian: fileURLToPath(
+				new URL("./__mocks__/obsidian.ts", import.meta.url)
+			),
+		},
+	},
+	test: {
+		include: ["helpers/**/*.test.ts"],
+	},
+});